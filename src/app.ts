@@ -3,9 +3,21 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import reviewRoutes from './routes/reviews';
+import storeRoutes from './routes/stores';
+import jobRoutes from './routes/jobs';
+import watchRoutes from './routes/watches';
+import webhookRoutes from './routes/webhooks';
+import compareRoutes from './routes/compare';
+import { conditionalGet } from './middleware/conditionalGet';
+import { createRateLimiter, isExpensiveRequest } from './middleware/rateLimit';
+import { appConfig } from './config';
+import { storePolicies } from './services/resilience';
+import { watchService } from './services/watchService';
+import { webhookService } from './services/webhookService';
 
 const app = express();
-const PORT = process.env.PORT || 3000;
+const PORT = appConfig.port;
+const { allowedOrigins } = appConfig.cors;
 
 // Middleware  
 // app.use(helmet({
@@ -19,9 +31,26 @@ const PORT = process.env.PORT || 3000;
 //     }
 //   }
 // }));
-app.use(cors());
+// Behind a reverse proxy, req.ip (and so the rate limits) would otherwise see only the proxy
+app.set('trust proxy', appConfig.trustProxy);
+app.use(cors({ origin: allowedOrigins.includes('*') ? '*' : allowedOrigins }));
 app.use(morgan('combined'));
 app.use(express.json());
+app.use(conditionalGet);
+
+// Rate limiting: a general budget for all API calls, plus a stricter one for scraping-heavy calls
+app.use('/api', createRateLimiter({
+  name: 'api',
+  limit: appConfig.rateLimit.requests,
+  windowMs: appConfig.rateLimit.windowMs
+}));
+app.use('/api', createRateLimiter({
+  name: 'expensive',
+  limit: appConfig.rateLimit.expensiveRequests,
+  windowMs: appConfig.rateLimit.expensiveWindowMs,
+  headerPrefix: 'X-RateLimit-Expensive',
+  appliesTo: req => isExpensiveRequest(req, appConfig.rateLimit.largeNum)
+}));
 
 // Serve static files
 app.use(express.static('public'));
@@ -33,12 +62,21 @@ app.get('/', (req, res) => {
 
 // Routes
 app.use('/api/reviews', reviewRoutes);
+app.use('/api/stores', storeRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/watches', watchRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/compare', compareRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.status(200).json({ 
     status: 'OK', 
     message: 'Google Play Review API is running',
+    upstream: {
+      'google-play': storePolicies['google-play'].breaker.getState(),
+      'app-store': storePolicies['app-store'].breaker.getState()
+    },
     timestamp: new Date().toISOString()
   });
 });
@@ -64,6 +102,10 @@ app.listen(PORT, () => {
   console.log(`🚀 Server is running on port ${PORT}`);
   console.log(`📖 Health check: http://localhost:${PORT}/health`);
   console.log(`📱 Reviews API: http://localhost:${PORT}/api/reviews`);
+  console.log(`🏪 Stores API: http://localhost:${PORT}/api/stores`);
+
+  webhookService.start();
+  watchService.start();
 });
 
 export default app;
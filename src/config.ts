@@ -0,0 +1,399 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+
+export type CacheDriver = 'memory' | 'file' | 'none';
+
+/** Express `trust proxy` value: off, a number of proxy hops, or trusted proxy addresses */
+export type TrustProxy = false | number | string[];
+
+export interface AppConfig {
+  port: number;
+  /** Proxies whose X-Forwarded-For is trusted, so `req.ip` is the client rather than the proxy */
+  trustProxy: TrustProxy;
+  defaults: {
+    /** Language used when a request does not pass `lang` */
+    lang: string;
+    /** Storefront used when a request does not pass `country` */
+    country: string;
+  };
+  limits: {
+    /** Reviews requested from Google Play per upstream call */
+    maxReviewsPerRequest: number;
+    /** Upper bound for the `num` parameter of search endpoints */
+    maxSearchResults: number;
+    /** Time after which a request's upstream fetching is cancelled; 0 disables */
+    maxRequestDurationMs: number;
+    /** Storefronts a `countries` request may list */
+    maxCountries: number;
+    /** Storefronts of a `countries` request fetched at the same time */
+    countryConcurrency: number;
+  };
+  delays: {
+    /** Pause between Google Play review batches */
+    googlePlayBatchMs: number;
+    /** Pause between App Store review pages */
+    appStorePageMs: number;
+  };
+  resilience: {
+    /** Retries of a failed upstream call */
+    retries: number;
+    retryBaseDelayMs: number;
+    retryMaxDelayMs: number;
+    /** Consecutive failures that open a store's circuit */
+    breakerThreshold: number;
+    breakerResetMs: number;
+  };
+  cors: {
+    /** Origins allowed by CORS; `*` allows any origin */
+    allowedOrigins: string[];
+  };
+  rateLimit: {
+    requests: number;
+    windowMs: number;
+    expensiveRequests: number;
+    expensiveWindowMs: number;
+    largeNum: number;
+    /** API keys that get their own budget; other clients are counted by IP address */
+    apiKeys: string[];
+  };
+  watch: {
+    /** How often the scheduler looks for watches that are due */
+    tickMs: number;
+    /** Polling interval of watches that do not set one */
+    defaultIntervalMinutes: number;
+    /** Shortest polling interval a watch may ask for */
+    minIntervalMinutes: number;
+    /** Reviews fetched per country in one poll */
+    maxReviewsPerPoll: number;
+    /** Discovered reviews kept per watch; the oldest are dropped first */
+    feedLimit: number;
+  };
+  webhooks: {
+    /** How often the delivery queue is checked for due deliveries */
+    tickMs: number;
+    /** Attempts before a delivery is given up */
+    maxAttempts: number;
+    /** Deliveries attempted per subscription in one tick, so a slow receiver cannot hold up the queue */
+    maxAttemptsPerTick: number;
+    /** Wait before the first retry; doubles with every further attempt */
+    retryBaseDelayMs: number;
+    /** Time a receiver has to answer */
+    timeoutMs: number;
+    /** Finished deliveries kept in the delivery log */
+    logLimit: number;
+  };
+  cache: {
+    driver: CacheDriver;
+    dir: string;
+    maxEntries: number;
+    ttls: {
+      appInfo: number;
+      search: number;
+      reviews: number;
+    };
+  };
+}
+
+export const DEFAULT_CONFIG: AppConfig = {
+  port: 3000,
+  trustProxy: false,
+  defaults: {
+    lang: 'tr',
+    country: 'tr'
+  },
+  limits: {
+    maxReviewsPerRequest: 200,
+    maxSearchResults: 50,
+    maxRequestDurationMs: 5 * 60 * 1000,
+    maxCountries: 30,
+    countryConcurrency: 3
+  },
+  delays: {
+    googlePlayBatchMs: 500,
+    appStorePageMs: 1000
+  },
+  resilience: {
+    retries: 3,
+    retryBaseDelayMs: 500,
+    retryMaxDelayMs: 8000,
+    breakerThreshold: 5,
+    breakerResetMs: 30000
+  },
+  cors: {
+    allowedOrigins: ['*']
+  },
+  rateLimit: {
+    requests: 100,
+    windowMs: 60000,
+    expensiveRequests: 10,
+    expensiveWindowMs: 60000,
+    largeNum: 1000,
+    apiKeys: []
+  },
+  watch: {
+    tickMs: 30000,
+    defaultIntervalMinutes: 60,
+    minIntervalMinutes: 5,
+    maxReviewsPerPoll: 500,
+    feedLimit: 5000
+  },
+  webhooks: {
+    tickMs: 5000,
+    maxAttempts: 8,
+    maxAttemptsPerTick: 10,
+    retryBaseDelayMs: 30000,
+    timeoutMs: 10000,
+    logLimit: 1000
+  },
+  cache: {
+    driver: 'memory',
+    dir: 'data/cache',
+    maxEntries: 500,
+    ttls: {
+      appInfo: 60 * 60 * 1000,
+      search: 15 * 60 * 1000,
+      reviews: 5 * 60 * 1000
+    }
+  }
+};
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Reads settings from environment variables first, then from the JSON config
+ * file, collecting every invalid value instead of stopping at the first one
+ */
+class ConfigReader {
+  readonly problems: string[] = [];
+
+  constructor(
+    private readonly env: NodeJS.ProcessEnv,
+    private readonly file: Record<string, any>
+  ) {}
+
+  integer(envName: string, filePath: string, fallback: number, min = 0, max = Number.MAX_SAFE_INTEGER): number {
+    const raw = this.raw(envName, filePath);
+    if (raw === undefined) return fallback;
+
+    const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+    if (!Number.isInteger(value) || value < min || value > max) {
+      const range = max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `between ${min} and ${max}`;
+      this.problems.push(`${this.describe(envName, filePath)} must be an integer ${range}, got "${raw}"`);
+      return fallback;
+    }
+
+    return value;
+  }
+
+  string(envName: string, filePath: string, fallback: string, pattern?: RegExp): string {
+    const raw = this.raw(envName, filePath);
+    if (raw === undefined) return fallback;
+
+    const value = String(raw).trim();
+    if (!value || (pattern && !pattern.test(value))) {
+      this.problems.push(`${this.describe(envName, filePath)} has an invalid value "${raw}"`);
+      return fallback;
+    }
+
+    return value;
+  }
+
+  oneOf<T extends string>(envName: string, filePath: string, fallback: T, allowed: T[]): T {
+    const raw = this.raw(envName, filePath);
+    if (raw === undefined) return fallback;
+
+    if (!allowed.includes(raw as T)) {
+      this.problems.push(`${this.describe(envName, filePath)} must be one of: ${allowed.join(', ')}, got "${raw}"`);
+      return fallback;
+    }
+
+    return raw as T;
+  }
+
+  /**
+   * Read a comma-separated env value or a JSON array
+   */
+  list(envName: string, filePath: string, fallback: string[], isValid: (item: string) => boolean): string[] {
+    const raw = this.raw(envName, filePath);
+    if (raw === undefined) return fallback;
+
+    const items = (Array.isArray(raw) ? raw.map(String) : String(raw).split(','))
+      .map(item => item.trim())
+      .filter(item => item.length > 0);
+
+    const invalid = items.filter(item => !isValid(item));
+    if (items.length === 0 || invalid.length > 0) {
+      this.problems.push(`${this.describe(envName, filePath)} has invalid entries: "${invalid.join(', ') || raw}"`);
+      return fallback;
+    }
+
+    return items;
+  }
+
+  private raw(envName: string, filePath: string): unknown {
+    const envValue = this.env[envName];
+    if (envValue !== undefined && envValue !== '') return envValue;
+
+    return filePath.split('.').reduce<any>((node, key) => node?.[key], this.file);
+  }
+
+  private describe(envName: string, filePath: string): string {
+    return `${envName} (${filePath})`;
+  }
+}
+
+/**
+ * Read the JSON config file named by CONFIG_FILE, or ./config.json when present
+ */
+function readConfigFile(env: NodeJS.ProcessEnv): Record<string, any> {
+  const filePath = path.resolve(env.CONFIG_FILE || 'config.json');
+
+  if (!fs.existsSync(filePath)) {
+    if (env.CONFIG_FILE) {
+      throw new ConfigError([`CONFIG_FILE points to a missing file: ${filePath}`]);
+    }
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object');
+    }
+    return parsed;
+  } catch (error) {
+    throw new ConfigError([`Cannot read config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`]);
+  }
+}
+
+function isOrigin(value: string): boolean {
+  if (value === '*') return true;
+
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
+
+const PROXY_NAMES = ['loopback', 'linklocal', 'uniquelocal'];
+
+/**
+ * Whether a value is a proxy address Express can trust: an IP, a subnet in CIDR notation or a named range
+ */
+function isProxyAddress(value: string): boolean {
+  if (PROXY_NAMES.includes(value)) return true;
+
+  const [address, prefix, ...rest] = value.split('/');
+  const version = net.isIP(address);
+  const maxPrefix = version === 6 ? 128 : 32;
+  return version !== 0 && rest.length === 0 && (prefix === undefined || (/^\d{1,3}$/.test(prefix) && Number(prefix) <= maxPrefix));
+}
+
+/**
+ * Read TRUST_PROXY: `false`, a hop count, or comma-separated proxy addresses.
+ * Trusting every proxy would let any client pick its own IP, so `true` is not accepted.
+ */
+function readTrustProxy(reader: ConfigReader, fallback: TrustProxy): TrustProxy {
+  // Unset and invalid values both leave the list empty
+  const entries = reader.list('TRUST_PROXY', 'trustProxy', [], value =>
+    value === 'false' || /^\d+$/.test(value) || isProxyAddress(value)
+  );
+
+  if (entries.length === 0) return fallback;
+  if (entries.every(isProxyAddress)) return entries;
+  if (entries.length === 1) return entries[0] === 'false' ? false : Number(entries[0]);
+
+  reader.problems.push(`TRUST_PROXY (trustProxy) must be false, a hop count or proxy addresses, got "${entries.join(',')}"`);
+  return fallback;
+}
+
+/**
+ * Build the application config from defaults, the JSON config file and
+ * environment variables (in increasing priority)
+ * @param env Environment variables
+ * @returns Validated config
+ * @throws ConfigError listing every invalid setting
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const reader = new ConfigReader(env, readConfigFile(env));
+  const defaults = DEFAULT_CONFIG;
+  const rateLimitWindowMs = reader.integer('RATE_LIMIT_WINDOW_MS', 'rateLimit.windowMs', defaults.rateLimit.windowMs, 1);
+
+  const config: AppConfig = {
+    port: reader.integer('PORT', 'port', defaults.port, 0, 65535),
+    trustProxy: readTrustProxy(reader, defaults.trustProxy),
+    defaults: {
+      lang: reader.string('DEFAULT_LANG', 'defaults.lang', defaults.defaults.lang, /^[a-z]{2,3}([-_][A-Za-z]{2,4})?$/),
+      country: reader.string('DEFAULT_COUNTRY', 'defaults.country', defaults.defaults.country, /^[a-z]{2}$/)
+    },
+    limits: {
+      maxReviewsPerRequest: reader.integer('MAX_REVIEWS_PER_REQUEST', 'limits.maxReviewsPerRequest', defaults.limits.maxReviewsPerRequest, 1),
+      maxSearchResults: reader.integer('MAX_SEARCH_RESULTS', 'limits.maxSearchResults', defaults.limits.maxSearchResults, 1),
+      maxRequestDurationMs: reader.integer('MAX_REQUEST_DURATION_MS', 'limits.maxRequestDurationMs', defaults.limits.maxRequestDurationMs),
+      maxCountries: reader.integer('MAX_COUNTRIES', 'limits.maxCountries', defaults.limits.maxCountries, 1),
+      countryConcurrency: reader.integer('COUNTRY_CONCURRENCY', 'limits.countryConcurrency', defaults.limits.countryConcurrency, 1)
+    },
+    delays: {
+      googlePlayBatchMs: reader.integer('GOOGLE_PLAY_BATCH_DELAY_MS', 'delays.googlePlayBatchMs', defaults.delays.googlePlayBatchMs),
+      appStorePageMs: reader.integer('APP_STORE_PAGE_DELAY_MS', 'delays.appStorePageMs', defaults.delays.appStorePageMs)
+    },
+    resilience: {
+      retries: reader.integer('UPSTREAM_RETRIES', 'resilience.retries', defaults.resilience.retries, 0, 10),
+      retryBaseDelayMs: reader.integer('UPSTREAM_RETRY_BASE_DELAY_MS', 'resilience.retryBaseDelayMs', defaults.resilience.retryBaseDelayMs),
+      retryMaxDelayMs: reader.integer('UPSTREAM_RETRY_MAX_DELAY_MS', 'resilience.retryMaxDelayMs', defaults.resilience.retryMaxDelayMs),
+      breakerThreshold: reader.integer('CIRCUIT_BREAKER_THRESHOLD', 'resilience.breakerThreshold', defaults.resilience.breakerThreshold, 1),
+      breakerResetMs: reader.integer('CIRCUIT_BREAKER_RESET_MS', 'resilience.breakerResetMs', defaults.resilience.breakerResetMs, 1)
+    },
+    cors: {
+      allowedOrigins: reader.list('ALLOWED_ORIGINS', 'cors.allowedOrigins', defaults.cors.allowedOrigins, isOrigin)
+    },
+    rateLimit: {
+      requests: reader.integer('RATE_LIMIT_REQUESTS', 'rateLimit.requests', defaults.rateLimit.requests),
+      windowMs: rateLimitWindowMs,
+      expensiveRequests: reader.integer('RATE_LIMIT_EXPENSIVE_REQUESTS', 'rateLimit.expensiveRequests', defaults.rateLimit.expensiveRequests),
+      expensiveWindowMs: reader.integer('RATE_LIMIT_EXPENSIVE_WINDOW_MS', 'rateLimit.expensiveWindowMs', rateLimitWindowMs, 1),
+      largeNum: reader.integer('RATE_LIMIT_LARGE_NUM', 'rateLimit.largeNum', defaults.rateLimit.largeNum, 1),
+      apiKeys: reader.list('RATE_LIMIT_API_KEYS', 'rateLimit.apiKeys', defaults.rateLimit.apiKeys, key => /^[\w-]{16,}$/.test(key))
+    },
+    watch: {
+      tickMs: reader.integer('WATCH_TICK_MS', 'watch.tickMs', defaults.watch.tickMs, 1000),
+      defaultIntervalMinutes: reader.integer('WATCH_DEFAULT_INTERVAL_MINUTES', 'watch.defaultIntervalMinutes', defaults.watch.defaultIntervalMinutes, 1),
+      minIntervalMinutes: reader.integer('WATCH_MIN_INTERVAL_MINUTES', 'watch.minIntervalMinutes', defaults.watch.minIntervalMinutes, 1),
+      maxReviewsPerPoll: reader.integer('WATCH_MAX_REVIEWS_PER_POLL', 'watch.maxReviewsPerPoll', defaults.watch.maxReviewsPerPoll, 1),
+      feedLimit: reader.integer('WATCH_FEED_LIMIT', 'watch.feedLimit', defaults.watch.feedLimit, 1)
+    },
+    webhooks: {
+      tickMs: reader.integer('WEBHOOK_TICK_MS', 'webhooks.tickMs', defaults.webhooks.tickMs, 100),
+      maxAttempts: reader.integer('WEBHOOK_MAX_ATTEMPTS', 'webhooks.maxAttempts', defaults.webhooks.maxAttempts, 1, 20),
+      maxAttemptsPerTick: reader.integer('WEBHOOK_MAX_ATTEMPTS_PER_TICK', 'webhooks.maxAttemptsPerTick', defaults.webhooks.maxAttemptsPerTick, 1),
+      retryBaseDelayMs: reader.integer('WEBHOOK_RETRY_BASE_DELAY_MS', 'webhooks.retryBaseDelayMs', defaults.webhooks.retryBaseDelayMs),
+      timeoutMs: reader.integer('WEBHOOK_TIMEOUT_MS', 'webhooks.timeoutMs', defaults.webhooks.timeoutMs, 1),
+      logLimit: reader.integer('WEBHOOK_LOG_LIMIT', 'webhooks.logLimit', defaults.webhooks.logLimit, 1)
+    },
+    cache: {
+      driver: reader.oneOf<CacheDriver>('CACHE_DRIVER', 'cache.driver', defaults.cache.driver, ['memory', 'file', 'none']),
+      dir: reader.string('CACHE_DIR', 'cache.dir', defaults.cache.dir),
+      maxEntries: reader.integer('CACHE_MAX_ENTRIES', 'cache.maxEntries', defaults.cache.maxEntries, 1),
+      ttls: {
+        appInfo: reader.integer('CACHE_TTL_APP_INFO_MS', 'cache.ttls.appInfo', defaults.cache.ttls.appInfo),
+        search: reader.integer('CACHE_TTL_SEARCH_MS', 'cache.ttls.search', defaults.cache.ttls.search),
+        reviews: reader.integer('CACHE_TTL_REVIEWS_MS', 'cache.ttls.reviews', defaults.cache.ttls.reviews)
+      }
+    }
+  };
+
+  if (reader.problems.length > 0) {
+    throw new ConfigError(reader.problems);
+  }
+
+  return config;
+}
+
+export const appConfig = loadConfig();
@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+
+/**
+ * Whether the client asked to skip cached upstream data, via
+ * `Cache-Control: no-cache` / `no-store` or `X-Cache-Bypass: true`
+ */
+export function shouldBypassCache(req: Request): boolean {
+  const cacheControl = req.get('Cache-Control') || '';
+  const bypassHeader = (req.get('X-Cache-Bypass') || '').toLowerCase();
+
+  return /no-cache|no-store/i.test(cacheControl) || bypassHeader === 'true' || bypassHeader === '1';
+}
+
+/**
+ * Tag JSON responses with an ETag derived from their `data` payload, so
+ * clients sending a matching If-None-Match get a 304. The `meta` block is
+ * left out because it carries per-request timestamps.
+ */
+export function conditionalGet(req: Request, res: Response, next: NextFunction) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return next();
+  }
+
+  const json = res.json.bind(res);
+
+  res.json = (body?: any) => {
+    if (res.statusCode === 200 && body && typeof body === 'object' && 'data' in body) {
+      const hash = createHash('sha1').update(JSON.stringify(body.data)).digest('base64url');
+      res.setHeader('ETag', `W/"${hash}"`);
+      res.setHeader('Cache-Control', 'private, no-cache');
+    }
+
+    // Express answers 304 itself when the ETag matches If-None-Match
+    return json(body);
+  };
+
+  next();
+}
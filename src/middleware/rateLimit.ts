@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express';
+import { appConfig } from '../config';
+
+export interface RateLimitOptions {
+  /** Requests allowed per client within one window */
+  limit: number;
+  windowMs: number;
+  /** Separates counters of limiters that share clients */
+  name: string;
+  /** Only count requests this returns true for */
+  appliesTo?: (req: Request) => boolean;
+  /** Prefix of the -Limit, -Remaining and -Reset headers, distinct per limiter (default: X-RateLimit) */
+  headerPrefix?: string;
+  /** API keys that get their own budget */
+  apiKeys?: string[];
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Identify the caller by API key when it sends a configured one, otherwise by IP address.
+ * Unknown keys are ignored, so inventing keys does not buy fresh budgets.
+ */
+export function getClientKey(req: Request, apiKeys: ReadonlySet<string>): string {
+  const apiKey = req.get('X-API-Key');
+  return apiKey && apiKeys.has(apiKey) ? `key:${apiKey}` : `ip:${req.ip}`;
+}
+
+/**
+ * Fixed-window rate limiter answering 429 with Retry-After once a client
+ * exceeds its budget. Every counted response carries X-RateLimit-* headers.
+ */
+export function createRateLimiter(options: RateLimitOptions) {
+  const { limit, windowMs, name, appliesTo, headerPrefix = 'X-RateLimit' } = options;
+  const apiKeys = new Set(options.apiKeys ?? appConfig.rateLimit.apiKeys);
+  const windows = new Map<string, Window>();
+
+  // Drop expired windows so idle clients do not accumulate
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }, windowMs);
+  cleanup.unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (limit <= 0 || (appliesTo && !appliesTo(req))) {
+      return next();
+    }
+
+    const now = Date.now();
+    const key = `${name}:${getClientKey(req, apiKeys)}`;
+    let window = windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count++;
+
+    const remaining = Math.max(limit - window.count, 0);
+    const resetSeconds = Math.ceil((window.resetAt - now) / 1000);
+
+    res.setHeader(`${headerPrefix}-Limit`, limit);
+    res.setHeader(`${headerPrefix}-Remaining`, remaining);
+    res.setHeader(`${headerPrefix}-Reset`, Math.ceil(window.resetAt / 1000));
+
+    if (window.count > limit) {
+      res.setHeader('Retry-After', resetSeconds);
+      return res.status(429).json({
+        error: 'Too many requests',
+        message: `Rate limit exceeded, retry in ${resetSeconds} seconds`
+      });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Whether a request triggers heavy scraping: exports, syncs, watch polls, event streams, app comparisons,
+ * analysis endpoints (topics, analytics, releases, reply statistics), a large `num`, or a `since`
+ * cutoff without `num`, which pages until the cutoff
+ * @param largeNumThreshold Review count above which a request counts as expensive
+ */
+export function isExpensiveRequest(req: Request, largeNumThreshold: number): boolean {
+  if (/\/export(\/|$)|\/sync$|\/poll$|\/stream$|^\/compare$|\/(topics|analytics|releases|replies\/stats)$/.test(req.path)) {
+    return true;
+  }
+
+  const num = parseInt((req.query.num ?? req.body?.num) as string);
+  if (isNaN(num)) return !!req.query.since && req.path.startsWith('/reviews/');
+  return num > largeNumThreshold;
+}
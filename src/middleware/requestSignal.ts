@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { appConfig } from '../config';
+
+export class RequestTimeoutError extends Error {
+  constructor(readonly maxDurationMs: number) {
+    super(`Request exceeded the maximum duration of ${Math.round(maxDurationMs / 1000)} seconds`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ClientClosedError extends Error {
+  constructor() {
+    super('Client closed the connection');
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Create a signal that aborts when the client goes away before the response
+ * is complete, or when the request runs longer than the configured maximum
+ * @param req Request
+ * @param res Response
+ * @param maxDurationMs Maximum duration, 0 disables the limit
+ * @returns AbortSignal to pass to upstream fetches
+ */
+export function createRequestSignal(
+  req: Request,
+  res: Response,
+  maxDurationMs = appConfig.limits.maxRequestDurationMs
+): AbortSignal {
+  const controller = new AbortController();
+
+  const timer = maxDurationMs > 0
+    ? setTimeout(() => {
+      console.warn(`Aborting ${req.method} ${req.originalUrl}: exceeded ${maxDurationMs}ms`);
+      controller.abort(new RequestTimeoutError(maxDurationMs));
+    }, maxDurationMs)
+    : null;
+
+  res.on('close', () => {
+    if (timer) clearTimeout(timer);
+
+    if (!res.writableFinished && !controller.signal.aborted) {
+      console.log(`Client disconnected from ${req.method} ${req.originalUrl}, cancelling upstream fetches`);
+      controller.abort(new ClientClosedError());
+    }
+  });
+
+  return controller.signal;
+}
+
+/**
+ * Finish a response whose work was aborted: 504 for timeouts when nothing
+ * has been sent yet, otherwise just close the connection
+ * @returns true when the signal was aborted and the response has been handled
+ */
+export function handleAbortedRequest(res: Response, signal: AbortSignal): boolean {
+  if (!signal.aborted) return false;
+
+  if (signal.reason instanceof RequestTimeoutError && !res.headersSent) {
+    res.status(504).json({
+      error: 'Request timed out',
+      message: signal.reason.message
+    });
+  } else if (!res.writableEnded) {
+    res.destroy();
+  }
+
+  return true;
+}
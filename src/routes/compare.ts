@@ -0,0 +1,115 @@
+import { Router, Request, Response } from 'express';
+import { compareService, CompareService, CompareTarget } from '../services/compareService';
+import { listPlatforms, resolvePlatform } from '../services/adapters';
+import { shouldBypassCache } from '../middleware/conditionalGet';
+import { createRequestSignal, handleAbortedRequest } from '../middleware/requestSignal';
+import { appConfig } from '../config';
+
+const router = Router();
+
+const MAX_WINDOW_DAYS = 365;
+
+/**
+ * Validate the `apps` body parameter
+ * @param value Raw `apps` parameter
+ * @returns Apps to compare or an error message
+ */
+function parseCompareTargets(value: unknown): { targets?: CompareTarget[]; error?: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'apps must be a non-empty array of { platform, appId }' };
+  }
+
+  if (value.length > CompareService.MAX_APPS) {
+    return { error: `No more than ${CompareService.MAX_APPS} apps can be compared at once` };
+  }
+
+  const targets: CompareTarget[] = [];
+  for (const [index, item] of value.entries()) {
+    const platform = resolvePlatform(String(item?.platform ?? ''));
+    if (!platform) {
+      return { error: `apps[${index}].platform must be one of: ${listPlatforms().join(', ')}` };
+    }
+
+    const appId = String(item?.appId ?? '').trim();
+    if (!appId) {
+      return { error: `apps[${index}].appId is required` };
+    }
+
+    targets.push({ platform, appId });
+  }
+
+  return { targets };
+}
+
+/**
+ * POST /api/compare
+ * Compare apps side by side, across Google Play and the App Store
+ * Body parameters:
+ * - apps: Array of { platform: 'google-play' | 'app-store', appId } (required, at most 10, fetched COUNTRY_CONCURRENCY at a time)
+ * - num: Recent reviews sampled per app for the review-based metrics (default: 200, max: 500)
+ * - windowDays: Length of the recent window in days (default: 30, max: 365)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * An app that cannot be fetched is reported with `error` instead of failing the comparison
+ */
+router.post('/', async (req: Request, res: Response) => {
+  const signal = createRequestSignal(req, res);
+
+  try {
+    const {
+      num = String(CompareService.DEFAULT_NUM),
+      windowDays = String(CompareService.DEFAULT_WINDOW_DAYS),
+      lang = appConfig.defaults.lang,
+      country = appConfig.defaults.country
+    } = req.body;
+
+    const { targets, error: targetsError } = parseCompareTargets(req.body.apps);
+    if (!targets) {
+      return res.status(400).json({
+        error: 'Invalid apps',
+        message: targetsError
+      });
+    }
+
+    const days = Number(windowDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_WINDOW_DAYS) {
+      return res.status(400).json({
+        error: 'Invalid parameters',
+        message: `windowDays must be a whole number from 1 to ${MAX_WINDOW_DAYS}`
+      });
+    }
+
+    const numReviews = Math.min(Math.max(parseInt(num as string) || CompareService.DEFAULT_NUM, 1), CompareService.MAX_NUM);
+    const comparisons = await compareService.compare(targets, {
+      num: numReviews,
+      windowDays: days,
+      lang: String(lang),
+      country: String(country),
+      bypassCache: shouldBypassCache(req)
+    }, signal);
+
+    res.json({
+      success: true,
+      data: comparisons,
+      meta: {
+        appCount: comparisons.length,
+        failedCount: comparisons.filter(comparison => comparison.error).length,
+        num: numReviews,
+        windowDays: days,
+        lang,
+        country,
+        fetchedAt: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    if (handleAbortedRequest(res, signal)) return;
+    console.error('Error in compare endpoint:', error);
+    res.status(500).json({
+      error: 'Failed to compare apps',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+export default router;
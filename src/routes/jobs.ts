@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import { jobService } from '../services/jobService';
+
+const router = Router();
+
+/**
+ * GET /api/jobs
+ * List background jobs, newest first
+ */
+router.get('/', (req: Request, res: Response) => {
+  const jobs = jobService.list();
+
+  res.json({
+    success: true,
+    data: jobs,
+    meta: {
+      totalJobs: jobs.length,
+      fetchedAt: new Date().toISOString()
+    }
+  });
+});
+
+/**
+ * GET /api/jobs/:id
+ * Get the state, progress, errors and download URL of a job
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const job = jobService.get(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({
+      error: 'Job not found',
+      message: 'The requested job does not exist'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: job
+  });
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a queued or running job
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  const job = jobService.cancel(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({
+      error: 'Job not found',
+      message: 'The requested job does not exist'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: job
+  });
+});
+
+export default router;
@@ -1,21 +1,646 @@
 import { Router, Request, Response } from 'express';
-import { ReviewService, ReviewOptions } from '../services/reviewService';
-import { AppStoreService } from '../services/appStoreService';
-import { CSVService } from '../services/csvService';
+import path from 'path';
+import { ReviewService, ReviewOptions, ReviewResponse, ReviewData } from '../services/reviewService';
+import { AppStoreService, AppStoreReviewResponse, AppStoreReviewData } from '../services/appStoreService';
+import { CSVService, CSVDialect, parseCSVDialect } from '../services/csvService';
+import { SyncService } from '../services/syncService';
+import { jobService } from '../services/jobService';
+import { XLSXService } from '../services/xlsxService';
+import {
+  GOOGLE_PLAY_COLUMNS,
+  APP_STORE_COLUMNS,
+  DEFAULT_GOOGLE_PLAY_COLUMNS,
+  DEFAULT_APP_STORE_COLUMNS,
+  resolveColumns,
+  parseFieldList,
+  parseFieldsProjection,
+  parseIncludeOptions,
+  applyIncludes,
+  columnFields,
+  columnIncludes,
+  columnProjection,
+  pickFields
+} from '../services/reviewColumns';
+import { Platform, UNIFIED_REVIEW_FIELDS } from '../services/storeAdapter';
+import { shouldBypassCache } from '../middleware/conditionalGet';
+import { appConfig } from '../config';
+import { PartialResult, FailedPage } from '../services/resilience';
+import { createRequestSignal, handleAbortedRequest } from '../middleware/requestSignal';
+import { ReviewLoader } from '../services/reviewLoader';
+import { AggregationSummary, CountryReport, countryAggregator, parseCountries } from '../services/countryAggregator';
+import { ReviewFilter, FetchStopReason, parseReviewFilter } from '../services/reviewFilter';
+import { topicExtractor } from '../services/topics';
+import { languageDetector } from '../services/language';
+import { AnalyticsService, BucketInterval, BUCKET_INTERVALS } from '../services/analyticsService';
+import { ReleaseReportService, CurrentRelease } from '../services/releaseReportService';
+import { ReplyStatsService } from '../services/replyStatsService';
+import { getStoreAdapter } from '../services/adapters';
 
 const router = Router();
 const reviewService = new ReviewService();
 const appStoreService = new AppStoreService();
 const csvService = new CSVService();
+const xlsxService = new XLSXService();
+const syncService = new SyncService();
+const reviewLoader = new ReviewLoader(syncService.getStore());
+const analyticsService = new AnalyticsService();
+const releaseReportService = new ReleaseReportService(analyticsService);
+const replyStatsService = new ReplyStatsService();
+
+type StreamFormat = 'csv' | 'ndjson';
+const streamFormats: StreamFormat[] = ['csv', 'ndjson'];
+
+type FileExportFormat = 'csv' | 'xlsx';
+const fileExportFormats: FileExportFormat[] = ['csv', 'xlsx'];
+
+const googlePlayFields = columnFields(GOOGLE_PLAY_COLUMNS);
+const appStoreFields = columnFields(APP_STORE_COLUMNS);
+const storedReviewFields = [...UNIFIED_REVIEW_FIELDS, 'firstSeenAt', 'lastSeenAt'];
+
+/**
+ * Map each item of an async iterable
+ */
+async function* mapBatches<T, U>(source: AsyncIterable<T>, mapper: (item: T) => U): AsyncGenerator<U> {
+  for await (const item of source) {
+    yield mapper(item);
+  }
+}
+
+/**
+ * Write a chunk to the response, waiting for the socket to drain when its buffer is full
+ */
+function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (res.write(chunk)) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+/**
+ * HTTP trailer sent after a streamed export, for facts known only once fetching has ended
+ */
+interface StreamTrailer {
+  name: string;
+  value: () => string | undefined;
+}
+
+/**
+ * Trailer of a streamed export: why fetching ended for a single storefront,
+ * or which storefronts failed when several are combined
+ */
+function exportTrailer(summary: AggregationSummary | null, stopReason: () => FetchStopReason | undefined): StreamTrailer {
+  if (!summary) return { name: 'X-Fetch-Stop-Reason', value: stopReason };
+
+  return {
+    name: 'X-Failed-Countries',
+    value: () => Object.keys(summary.countries).filter(country => summary.countries[country].error).join(',')
+  };
+}
+
+/**
+ * Stream review batches to the response as CSV or newline-delimited JSON;
+ * NDJSON rows are projected to `fields` when given
+ * @param trailer Trailer to send once every batch is written
+ * @returns Number of reviews written
+ */
+async function streamReviewsToResponse<T>(
+  res: Response,
+  format: StreamFormat,
+  filename: string,
+  batches: AsyncIterable<T[]>,
+  csv: { dialect: CSVDialect; header: string; formatRow: (review: T) => string },
+  fields: string[] | null = null,
+  trailer?: StreamTrailer
+): Promise<number> {
+  const lineTerminator = format === 'csv' ? csv.dialect.lineTerminator : '\n';
+  let written = 0;
+
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+  if (trailer) res.setHeader('Trailer', trailer.name);
+  res.flushHeaders();
+
+  if (format === 'csv') {
+    await writeChunk(res, csvService.getPreamble(csv.dialect) + csv.header + lineTerminator);
+  }
+
+  for await (const reviews of batches) {
+    // Stop fetching once the client has gone away
+    if (res.destroyed) break;
+
+    const lines = format === 'csv'
+      ? reviews.map(review => csv.formatRow(review))
+      : (fields ? pickFields(reviews as object[], fields) : reviews).map(review => JSON.stringify(review));
+    await writeChunk(res, lines.join(lineTerminator) + lineTerminator);
+    written += reviews.length;
+  }
+
+  const trailerValue = trailer?.value();
+  if (trailer && trailerValue !== undefined) res.addTrailers({ [trailer.name]: trailerValue });
+
+  res.end();
+  return written;
+}
+
+/**
+ * Write one Server-Sent Event
+ */
+function writeEvent(res: Response, event: string, data: unknown, id?: number): Promise<void> {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return writeChunk(res, `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Stream review batches as Server-Sent Events: a `progress` and a `reviews`
+ * event per batch, then a `summary` event once fetching has finished
+ * @param batches Review batches with the token to resume after each one
+ * @param options Requested count, field projection and the list failed pages are collected in
+ */
+async function streamReviewEvents<T>(
+  res: Response,
+  batches: AsyncIterable<{ reviews: T[]; nextToken: string | null }>,
+  options: { requested: number; fields?: string[] | null; failedPages: FailedPage[] }
+): Promise<void> {
+  const { requested, fields, failedPages } = options;
+  const startedAt = Date.now();
+  let fetched = 0;
+  let batchNumber = 0;
+  let lastToken: string | null = null;
+
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Keep proxies from buffering the stream
+  res.flushHeaders();
+
+  // Comment lines keep idle connections open while a slow batch is fetched
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+  try {
+    for await (const batch of batches) {
+      if (res.destroyed) break;
+
+      batchNumber++;
+      fetched += batch.reviews.length;
+      lastToken = batch.nextToken;
+
+      const elapsedMs = Date.now() - startedAt;
+      const remaining = batch.nextToken ? Math.max(requested - fetched, 0) : 0;
+
+      await writeEvent(res, 'progress', {
+        batch: batchNumber,
+        fetched,
+        requested,
+        nextToken: batch.nextToken,
+        elapsedMs,
+        etaMs: fetched > 0 ? Math.round(elapsedMs / fetched * remaining) : null
+      }, batchNumber);
+
+      await writeEvent(res, 'reviews', {
+        batch: batchNumber,
+        reviews: fields ? pickFields(batch.reviews as object[], fields) : batch.reviews
+      });
+    }
+
+    if (!res.destroyed) {
+      await writeEvent(res, 'summary', {
+        fetched,
+        requested,
+        batches: batchNumber,
+        durationMs: Date.now() - startedAt,
+        reachedEnd: fetched < requested && failedPages.length === 0,
+        partial: failedPages.length > 0 ? { failedPages, lastGoodToken: lastToken } : null
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  res.end();
+}
+
+/**
+ * Report a failure on an event stream that has already started, or fall back to a JSON error
+ * @returns true when the failure has been reported
+ */
+async function handleEventStreamError(res: Response, signal: AbortSignal, error: unknown): Promise<boolean> {
+  if (!res.headersSent) {
+    return handleAbortedRequest(res, signal);
+  }
+
+  if (!res.destroyed) {
+    const reason = signal.aborted ? signal.reason : error;
+    await writeEvent(res, 'error', {
+      error: 'Failed to fetch reviews',
+      message: reason instanceof Error ? reason.message : 'Unknown error occurred'
+    });
+    res.end();
+  }
+
+  return true;
+}
+
+/**
+ * Describe pages a multi-page fetch could not get, for job error lists
+ */
+function describeFailedPages(partial?: PartialResult): string[] {
+  return (partial?.failedPages || []).map(failure => `Page ${failure.page} could not be fetched: ${failure.error}`);
+}
+
+/**
+ * Number of reviews to scan: without an explicit `num`, a `since` cutoff on a
+ * newest-first sort pages until the cutoff instead of stopping at the default
+ */
+function resolveScanCount(num: unknown, fallback: number, filter: ReviewFilter | null | undefined, newestFirst: boolean): number {
+  if ((num === undefined || num === '') && filter?.since && newestFirst) return Infinity;
+  return Math.max(parseInt(num as string) || fallback, 1); // Minimum 1, no maximum limit
+}
+
+/**
+ * Describe how a fetch with a `since` cutoff ended, for response metadata
+ */
+function describeCutoff(filter: ReviewFilter | null | undefined, stopReason?: FetchStopReason) {
+  if (!filter?.since) return null;
+
+  return {
+    since: filter.since,
+    until: filter.until || null,
+    reached: stopReason === 'cutoff',
+    stopReason: stopReason || null
+  };
+}
+
+/**
+ * Describe storefronts and pages a combined fetch could not get, for job error lists
+ */
+function describeCountryFailures(summary: AggregationSummary): string[] {
+  return Object.entries(summary.countries).flatMap(([country, report]) => [
+    ...(report.error ? [`Country ${country} could not be fetched: ${report.error}`] : []),
+    ...report.failedPages.map(failure => `Country ${country}, page ${failure.page} could not be fetched: ${failure.error}`)
+  ]);
+}
+
+/**
+ * Progress callback of a combined fetch: records a storefront's scanned count in its report
+ * and passes the total over all storefronts on to a job
+ */
+function countryProgress(reportProgress: (count: number) => void) {
+  const scanned: Record<string, number> = {};
+
+  return (country: string, report: CountryReport, count: number) => {
+    report.scannedCount = scanned[country] = count;
+    reportProgress(Object.values(scanned).reduce((sum, value) => sum + value, 0));
+  };
+}
+
+/**
+ * Metadata of a request that may combine storefronts: the countries, their counts and failures,
+ * and how many duplicate reviews were dropped
+ */
+function describeCountries(countries: string[] | null | undefined, summary?: AggregationSummary | null) {
+  return {
+    countries: countries || null,
+    countryResults: summary?.countries ?? null,
+    duplicateCount: summary?.duplicateCount ?? null
+  };
+}
+
+/**
+ * Build a handler that syncs the local review database for a platform
+ * Body parameters:
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - maxReviews: Upper bound of reviews fetched in one sync (default: 1000)
+ */
+function createSyncHandler(platform: Platform) {
+  return async (req: Request, res: Response) => {
+    try {
+      const { appId } = req.params;
+      const {
+        lang = appConfig.defaults.lang,
+        country = appConfig.defaults.country,
+        maxReviews = '1000'
+      } = req.body || {};
+
+      const result = await syncService.sync(platform, appId, {
+        lang: lang as string,
+        country: country as string,
+        maxReviews: Math.max(parseInt(maxReviews as string) || 1000, 1)
+      });
+
+      res.json({
+        success: true,
+        data: result,
+        meta: {
+          appId,
+          platform,
+          lang,
+          country
+        }
+      });
+
+    } catch (error) {
+      console.error('Error in sync endpoint:', error);
+      res.status(500).json({
+        error: 'Failed to sync reviews',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+}
+
+/**
+ * Build a handler that lists reviews kept in the local review database
+ * Query parameters:
+ * - limit: Number of reviews to return (default: 100)
+ * - offset: Number of reviews to skip (default: 0)
+ * - fields: Comma-separated fields to return (default: all)
+ * - include: Comma-separated annotations to add - 'sentiment'
+ */
+function createStoredReviewsHandler(platform: Platform) {
+  return async (req: Request, res: Response) => {
+    try {
+      const { appId } = req.params;
+      const { limit = '100', offset = '0' } = req.query;
+
+      const { include, error: includeError } = parseIncludeOptions(req.query.include);
+      if (!include) {
+        return res.status(400).json({
+          error: 'Invalid include',
+          message: includeError
+        });
+      }
+
+      const { fields, error: fieldsError } = parseFieldsProjection(req.query.fields, [...storedReviewFields, ...include]);
+      if (fieldsError) {
+        return res.status(400).json({
+          error: 'Invalid fields',
+          message: fieldsError
+        });
+      }
+
+      const limitCount = Math.max(parseInt(limit as string) || 100, 1);
+      const offsetCount = Math.max(parseInt(offset as string) || 0, 0);
+      const store = syncService.getStore();
+      const reviews = applyIncludes(store.list(platform, appId, { limit: limitCount, offset: offsetCount }), include);
+      const storefronts = Object.fromEntries(Object.entries(store.listSyncStates(platform, appId))
+        .map(([storefront, { lastSyncedAt, historyComplete }]) => [storefront, { lastSyncedAt, historyComplete }]));
+
+      res.json({
+        success: true,
+        data: fields ? pickFields(reviews, fields) : reviews,
+        meta: {
+          appId,
+          platform,
+          limit: limitCount,
+          offset: offsetCount,
+          actualCount: reviews.length,
+          totalStored: store.count(platform, appId),
+          storefronts
+        }
+      });
+
+    } catch (error) {
+      console.error('Error in stored reviews endpoint:', error);
+      res.status(500).json({
+        error: 'Failed to read stored reviews',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+}
+
+/**
+ * Build a handler that reports recurring keywords and word pairs of low and high scored reviews
+ * Query parameters:
+ * - source: 'live' to fetch from the store, 'stored' to read the local database (default: 'live')
+ * - num: Number of reviews to analyze (default: 500)
+ * - lang: Language code, also the language assumed for stopwords (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Comma-separated country codes to combine instead of country; num applies to each
+ * - sort: Sort order of fetched reviews (default: 'newest')
+ * - limit: Keywords and word pairs to return per score band (default: 20)
+ * - minCount: Minimum number of reviews mentioning a term (default: 2)
+ */
+function createTopicsHandler(platform: Platform) {
+  return async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
+
+    try {
+      const { appId } = req.params;
+      const { limit = '20', minCount = '2' } = req.query;
+
+      const { selection, error: selectionError } = reviewLoader.parseSelection(platform, req.query);
+      if (!selection) {
+        return res.status(400).json({
+          error: 'Invalid parameters',
+          message: selectionError
+        });
+      }
+
+      selection.bypassCache = shouldBypassCache(req);
+      const { reviews, source, partial, aggregation } = await reviewLoader.load(platform, appId, selection, signal);
+
+      const report = topicExtractor.extract(reviews, {
+        language: selection.lang,
+        limit: Math.max(parseInt(limit as string) || 20, 1),
+        minCount: Math.max(parseInt(minCount as string) || 2, 1)
+      });
+
+      res.json({
+        success: true,
+        data: {
+          low: report.low,
+          high: report.high
+        },
+        meta: {
+          appId,
+          platform,
+          source,
+          analyzedCount: reviews.length,
+          languages: report.languages,
+          partial,
+          lang: selection.lang,
+          country: selection.country,
+          ...describeCountries(selection.countries, aggregation)
+        }
+      });
+
+    } catch (error) {
+      if (handleAbortedRequest(res, signal)) return;
+      console.error('Error in topics endpoint:', error);
+      res.status(500).json({
+        error: 'Failed to extract topics',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+}
+
+/**
+ * Build a handler that aggregates review scores per day or week, per app version and per detected language
+ * Query parameters:
+ * - interval: Time bucket size - 'day', 'week' (default: 'day')
+ * - source: 'live' to fetch from the store, 'stored' to read the local database (default: 'live')
+ * - num: Number of reviews to analyze (default: 500)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Comma-separated country codes to combine instead of country; num applies to each
+ * - sort: Sort order of fetched reviews (default: 'newest')
+ */
+function createAnalyticsHandler(platform: Platform) {
+  return async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
+
+    try {
+      const { appId } = req.params;
+      const { interval = 'day' } = req.query;
+
+      if (!BUCKET_INTERVALS.includes(interval as BucketInterval)) {
+        return res.status(400).json({
+          error: 'Invalid interval',
+          message: `Interval must be one of: ${BUCKET_INTERVALS.join(', ')}`
+        });
+      }
+
+      const { selection, error: selectionError } = reviewLoader.parseSelection(platform, req.query);
+      if (!selection) {
+        return res.status(400).json({
+          error: 'Invalid parameters',
+          message: selectionError
+        });
+      }
+
+      selection.bypassCache = shouldBypassCache(req);
+      const { reviews, source, partial, aggregation } = await reviewLoader.load(platform, appId, selection, signal);
+
+      res.json({
+        success: true,
+        data: analyticsService.analyze(reviews, interval as BucketInterval),
+        meta: {
+          appId,
+          platform,
+          source,
+          analyzedCount: reviews.length,
+          partial,
+          lang: selection.lang,
+          country: selection.country,
+          ...describeCountries(selection.countries, aggregation)
+        }
+      });
+
+    } catch (error) {
+      if (handleAbortedRequest(res, signal)) return;
+      console.error('Error in analytics endpoint:', error);
+      res.status(500).json({
+        error: 'Failed to build analytics',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+}
+
+/**
+ * Build a handler that compares every release with the previous one and flags rating regressions
+ * Query parameters:
+ * - minReviews: Reviews a release and its baseline each need before drops are tested (default: 20)
+ * - alpha: Significance level of the drop tests (default: 0.05)
+ * - source: 'live' to fetch from the store, 'stored' to read the local database (default: 'live')
+ * - num: Number of reviews to analyze (default: 500)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Comma-separated country codes to combine instead of country; num applies to each
+ * - sort: Sort order of fetched reviews (default: 'newest')
+ */
+function createReleasesHandler(platform: Platform) {
+  return async (req: Request, res: Response) => {
+    const signal = createRequestSignal(req, res);
+
+    try {
+      const { appId } = req.params;
+      const { minReviews = '20', alpha = '0.05' } = req.query;
+
+      const significance = parseFloat(alpha as string);
+      if (!(significance > 0 && significance < 1)) {
+        return res.status(400).json({
+          error: 'Invalid alpha',
+          message: 'Alpha must be a number between 0 and 1'
+        });
+      }
+
+      const { selection, error: selectionError } = reviewLoader.parseSelection(platform, req.query);
+      if (!selection) {
+        return res.status(400).json({
+          error: 'Invalid parameters',
+          message: selectionError
+        });
+      }
+
+      selection.bypassCache = shouldBypassCache(req);
+
+      // Release dates are a nice-to-have; the report still works from review dates without them
+      let appInfoError: string | null = null;
+      const currentRelease = getStoreAdapter(platform)
+        .getAppInfo(appId, { lang: selection.lang, country: selection.country, bypassCache: selection.bypassCache })
+        .then(appInfo => releaseReportService.currentRelease(appInfo))
+        .catch((error): CurrentRelease | null => {
+          appInfoError = error instanceof Error ? error.message : 'Unknown error occurred';
+          return null;
+        });
+
+      const [{ reviews, source, partial, aggregation }, current] = await Promise.all([
+        reviewLoader.load(platform, appId, selection, signal),
+        currentRelease
+      ]);
+
+      const report = releaseReportService.build(reviews, current, {
+        minReviews: Math.max(parseInt(minReviews as string) || 20, 2),
+        alpha: significance,
+        language: selection.lang
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        meta: {
+          appId,
+          platform,
+          source,
+          analyzedCount: reviews.length,
+          partial,
+          appInfoError,
+          lang: selection.lang,
+          country: selection.country,
+          ...describeCountries(selection.countries, aggregation)
+        }
+      });
+
+    } catch (error) {
+      if (handleAbortedRequest(res, signal)) return;
+      console.error('Error in releases endpoint:', error);
+      res.status(500).json({
+        error: 'Failed to build release report',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  };
+}
 
 /**
  * GET /api/reviews/search
  * Search for apps in Google Play Store
  * Query parameters:
  * - q: Search query (required)
- * - num: Number of results (default: 20, max: 50)
- * - lang: Language code (default: 'tr')
- * - country: Country code (default: 'tr')
+ * - num: Number of results (default: 20, max: MAX_SEARCH_RESULTS)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
  * - price: Price filter - 'all', 'free', 'paid' (default: 'all')
  */
 router.get('/search', async (req: Request, res: Response) => {
@@ -23,8 +648,8 @@ router.get('/search', async (req: Request, res: Response) => {
     const {
       q,
       num = '20',
-      lang = 'tr',
-      country = 'tr',
+      lang = appConfig.defaults.lang,
+      country = appConfig.defaults.country,
       price = 'all'
     } = req.query;
 
@@ -35,7 +660,7 @@ router.get('/search', async (req: Request, res: Response) => {
       });
     }
 
-    const numResults = Math.max(parseInt(num as string) || 20, 1);
+    const numResults = Math.min(Math.max(parseInt(num as string) || 20, 1), appConfig.limits.maxSearchResults);
     const validPrices = ['all', 'free', 'paid'];
     const priceFilter = validPrices.includes(price as string) ? price as 'all' | 'free' | 'paid' : 'all';
 
@@ -43,7 +668,8 @@ router.get('/search', async (req: Request, res: Response) => {
       num: numResults,
       lang: lang as string,
       country: country as string,
-      price: priceFilter
+      price: priceFilter,
+      bypassCache: shouldBypassCache(req)
     });
 
     res.json({
@@ -71,7 +697,7 @@ router.get('/search', async (req: Request, res: Response) => {
 
 /**
  * GET /api/reviews/exports
- * List all exported CSV files
+ * List all exported CSV and XLSX files
  */
 router.get('/exports', async (req: Request, res: Response) => {
   try {
@@ -99,21 +725,35 @@ router.get('/exports', async (req: Request, res: Response) => {
  * GET /api/reviews/:appId
  * Get reviews for a specific app
  * Query parameters:
- * - lang: Language code (default: 'tr')
- * - country: Country code (default: 'tr')
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Comma-separated country codes to combine instead of country; num applies to each
  * - sort: Sort order - 'newest', 'rating', 'helpfulness' (default: 'newest')
- * - num: Number of reviews to fetch (default: 100, max: 200)
+ * - num: Number of reviews to fetch (default: 100, or every review since `since` when sorted by newest)
  * - paginate: Enable pagination (default: true)
- * - nextPaginationToken: Token for next page
+ * - nextPaginationToken: Token for next page, not available with countries
+ * - fields: Comma-separated review fields to return (default: all)
+ * - include: Comma-separated annotations to add - 'sentiment'
+ * - minScore, maxScore: Score range, 1-5
+ * - since, until: Only reviews written in [since, until) (ISO 8601); sorted by newest, fetching stops once past `since`
+ * - version: Comma-separated app versions
+ * - language: Comma-separated detected languages, e.g. tr,en
+ * - text: Case-insensitive substring of the review text
+ * - textRegex: Case-insensitive RE2 regular expression matched against the review text
+ * - hasReply: 'true' or 'false' - whether the developer replied
+ * - minThumbsUp: Minimum number of helpful votes
+ * Filters apply to the fetched reviews, so num is the number scanned, not matched
  */
 router.get('/:appId', async (req: Request, res: Response) => {
+  const signal = createRequestSignal(req, res);
+
   try {
     const { appId } = req.params;
     const {
-      lang = 'tr',
-      country = 'tr',
+      lang = appConfig.defaults.lang,
+      country = appConfig.defaults.country,
       sort = 'newest',
-      num = '100',
+      num,
       paginate = 'true',
       nextPaginationToken
     } = req.query;
@@ -126,13 +766,53 @@ router.get('/:appId', async (req: Request, res: Response) => {
       });
     }
 
-    // Validate and parse num parameter
-    const numReviews = Math.max(parseInt(num as string) || 100, 1); // Minimum 1, no maximum limit
-    
+    const { include, error: includeError } = parseIncludeOptions(req.query.include);
+    if (!include) {
+      return res.status(400).json({
+        error: 'Invalid include',
+        message: includeError
+      });
+    }
+
+    const { fields, error: fieldsError } = parseFieldsProjection(req.query.fields, [...googlePlayFields, ...include]);
+    if (fieldsError) {
+      return res.status(400).json({
+        error: 'Invalid fields',
+        message: fieldsError
+      });
+    }
+
+    const { filter, error: filterError } = parseReviewFilter(req.query);
+    if (filterError) {
+      return res.status(400).json({
+        error: 'Invalid filter',
+        message: filterError
+      });
+    }
+
+    const { countries, error: countriesError } = parseCountries(req.query.countries);
+    if (countriesError) {
+      return res.status(400).json({
+        error: 'Invalid countries',
+        message: countriesError
+      });
+    }
+
+    // Each storefront is paged on its own, so there is no single token to continue from
+    if (countries && nextPaginationToken) {
+      return res.status(400).json({
+        error: 'Invalid parameters',
+        message: 'nextPaginationToken cannot be combined with countries'
+      });
+    }
+
     // Validate sort parameter
     const validSorts = ['newest', 'rating', 'helpfulness'];
     const sortOrder = validSorts.includes(sort as string) ? sort as 'newest' | 'rating' | 'helpfulness' : 'newest';
 
+    // Validate and parse num parameter
+    const numReviews = resolveScanCount(num, 100, filter, sortOrder === 'newest');
+
     const options: ReviewOptions = {
       appId,
       lang: lang as string,
@@ -140,26 +820,56 @@ router.get('/:appId', async (req: Request, res: Response) => {
       sort: sortOrder,
       num: numReviews,
       paginate: paginate === 'true',
-      nextPaginationToken: nextPaginationToken as string
+      nextPaginationToken: nextPaginationToken as string,
+      bypassCache: shouldBypassCache(req),
+      filter: filter || undefined,
+      signal
     };
 
-    const result = await reviewService.getReviews(options);
+    let response: ReviewResponse;
+    let aggregation: AggregationSummary | null = null;
+
+    if (countries) {
+      const { reviews, scannedCount, ...summary } = await countryAggregator.aggregate(countries, (storefront, report) => mapBatches(reviewService.streamReviews({
+        ...options,
+        country: storefront,
+        onProgress: count => { report.scannedCount = count; },
+        onPageFailed: failure => report.failedPages.push(failure),
+        onStop: reason => { report.stopReason = reason; }
+      }), batch => batch.reviews), signal);
+
+      aggregation = summary;
+      response = { reviews, totalCount: reviews.length, filterStats: { scannedCount, matchedCount: reviews.length } };
+    } else {
+      response = await reviewService.getReviews(options);
+    }
+
+    const { partial, filterStats, stopReason, ...fetched } = response;
+    const result = { ...fetched, reviews: applyIncludes(fetched.reviews, include, lang as string) };
 
     res.json({
       success: true,
-      data: result,
+      data: fields ? { ...result, reviews: pickFields(result.reviews, fields) } : result,
       meta: {
         appId,
-        requestedCount: numReviews,
+        requestedCount: Number.isFinite(numReviews) ? numReviews : null,
         actualCount: result.reviews.length,
+        scannedCount: filterStats?.scannedCount ?? result.reviews.length,
+        matchedCount: filterStats?.matchedCount ?? result.reviews.length,
+        filter: filter || null,
+        // Combined storefronts report their stop reasons in countryResults
+        cutoff: aggregation ? null : describeCutoff(filter, stopReason),
         hasNextPage: !!result.nextPaginationToken,
+        partial: partial || null,
         sort: sortOrder,
         lang,
-        country
+        country,
+        ...describeCountries(countries, aggregation)
       }
     });
 
   } catch (error) {
+    if (handleAbortedRequest(res, signal)) return;
     console.error('Error in reviews endpoint:', error);
     res.status(500).json({
       error: 'Failed to fetch reviews',
@@ -175,7 +885,7 @@ router.get('/:appId', async (req: Request, res: Response) => {
 router.get('/:appId/info', async (req: Request, res: Response) => {
   try {
     const { appId } = req.params;
-    const { lang = 'tr', country = 'tr' } = req.query;
+    const { lang = appConfig.defaults.lang, country = appConfig.defaults.country } = req.query;
 
     if (!appId || typeof appId !== 'string') {
       return res.status(400).json({
@@ -184,7 +894,9 @@ router.get('/:appId/info', async (req: Request, res: Response) => {
       });
     }
 
-    const appInfo = await reviewService.getAppInfo(appId, lang as string, country as string);
+    const appInfo = await reviewService.getAppInfo(appId, lang as string, country as string, {
+      bypassCache: shouldBypassCache(req)
+    });
 
     res.json({
       success: true,
@@ -206,24 +918,336 @@ router.get('/:appId/info', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/reviews/:appId/sync
+ * Fetch new Google Play reviews into the local database, stopping at the first already stored review
+ */
+router.post('/:appId/sync', createSyncHandler('google-play'));
+
+/**
+ * GET /api/reviews/:appId/stored
+ * List Google Play reviews kept in the local database
+ */
+router.get('/:appId/stored', createStoredReviewsHandler('google-play'));
+
+/**
+ * GET /api/reviews/:appId/topics
+ * Top keywords and word pairs of 1-2 star and 4-5 star Google Play reviews
+ */
+router.get('/:appId/topics', createTopicsHandler('google-play'));
+
+/**
+ * GET /api/reviews/:appId/analytics
+ * Google Play rating statistics per day or week and per app version
+ */
+router.get('/:appId/analytics', createAnalyticsHandler('google-play'));
+
+/**
+ * GET /api/reviews/:appId/releases
+ * Compare each Google Play release with the previous one and flag rating regressions
+ */
+router.get('/:appId/releases', createReleasesHandler('google-play'));
+
+/**
+ * GET /api/reviews/:appId/replies/stats
+ * Developer reply rate and time to reply of Google Play reviews, overall, per score band and over time,
+ * with the 1-2 star reviews still unanswered
+ * Query parameters:
+ * - interval: Time bucket size of the trend - 'day', 'week' (default: 'week')
+ * - olderThanDays: Age after which an unanswered 1-2 star review is listed (default: 7)
+ * - limit: Unanswered reviews to list (default: 50)
+ * - source: 'live' to fetch from the store, 'stored' to read the local database (default: 'live')
+ * - num: Number of reviews to analyze (default: 500)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Comma-separated country codes to combine instead of country; num applies to each
+ * - sort: Sort order of fetched reviews (default: 'newest')
+ */
+router.get('/:appId/replies/stats', async (req: Request, res: Response) => {
+  const signal = createRequestSignal(req, res);
+
+  try {
+    const { appId } = req.params;
+    const { interval = 'week', olderThanDays = '7', limit = '50' } = req.query;
+
+    if (!BUCKET_INTERVALS.includes(interval as BucketInterval)) {
+      return res.status(400).json({
+        error: 'Invalid interval',
+        message: `Interval must be one of: ${BUCKET_INTERVALS.join(', ')}`
+      });
+    }
+
+    const days = Number(olderThanDays);
+    if (!Number.isInteger(days) || days < 0) {
+      return res.status(400).json({
+        error: 'Invalid parameters',
+        message: 'olderThanDays must be a whole number of 0 or more'
+      });
+    }
+
+    const { selection, error: selectionError } = reviewLoader.parseSelection('google-play', req.query);
+    if (!selection) {
+      return res.status(400).json({
+        error: 'Invalid parameters',
+        message: selectionError
+      });
+    }
+
+    selection.bypassCache = shouldBypassCache(req);
+    const { reviews, source, partial, aggregation } = await reviewLoader.load('google-play', appId, selection, signal);
+
+    res.json({
+      success: true,
+      data: replyStatsService.analyze(reviews, {
+        interval: interval as BucketInterval,
+        olderThanDays: days,
+        limit: Math.max(parseInt(limit as string) || 50, 0)
+      }),
+      meta: {
+        appId,
+        platform: 'google-play',
+        source,
+        analyzedCount: reviews.length,
+        partial,
+        lang: selection.lang,
+        country: selection.country,
+        ...describeCountries(selection.countries, aggregation)
+      }
+    });
+
+  } catch (error) {
+    if (handleAbortedRequest(res, signal)) return;
+    console.error('Error in reply stats endpoint:', error);
+    res.status(500).json({
+      error: 'Failed to build reply statistics',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * GET /api/reviews/:appId/export
+ * Stream reviews straight to the response, batch by batch, as they are fetched
+ * Query parameters:
+ * - format: 'csv' or 'ndjson' (default: 'csv')
+ * - num: Number of reviews to scan (default: 500, or every review since `since` when sorted by newest; no limit)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Comma-separated country codes to combine instead of country; num applies to each
+ * - sort: Sort order (default: 'newest')
+ * - columns: Comma-separated columns in output order (default: id,userName,content,score,date,thumbsUp,version)
+ * - dialect: CSV preset - 'rfc4180', 'excel', 'legacy' (default: 'rfc4180')
+ * - delimiter, quoting, bom, nullValue, emoji: Overrides for the chosen preset
+ * - minScore, maxScore, since, until, version, language, text, textRegex, hasReply, minThumbsUp: Filters, as for GET /api/reviews/:appId
+ * The `X-Fetch-Stop-Reason` trailer tells whether fetching stopped at the `since` cutoff ('cutoff'),
+ * ran out of reviews ('exhausted'), scanned `num` reviews ('limit') or hit a failed batch ('failed').
+ * With countries, the `X-Failed-Countries` trailer lists the storefronts that could not be fetched instead.
+ */
+router.get('/:appId/export', async (req: Request, res: Response) => {
+  const signal = createRequestSignal(req, res);
+
+  try {
+    const { appId } = req.params;
+    const {
+      format = 'csv',
+      num,
+      lang = appConfig.defaults.lang,
+      country = appConfig.defaults.country,
+      sort = 'newest'
+    } = req.query;
+
+    if (!streamFormats.includes(format as StreamFormat)) {
+      return res.status(400).json({
+        error: 'Invalid format',
+        message: `Format must be one of: ${streamFormats.join(', ')}`
+      });
+    }
+
+    const { dialect, error: dialectError } = parseCSVDialect(req.query);
+    if (!dialect) {
+      return res.status(400).json({
+        error: 'Invalid CSV dialect',
+        message: dialectError
+      });
+    }
+
+    const { columns, error: columnsError } = resolveColumns(GOOGLE_PLAY_COLUMNS, req.query.columns, DEFAULT_GOOGLE_PLAY_COLUMNS);
+    if (!columns) {
+      return res.status(400).json({
+        error: 'Invalid columns',
+        message: columnsError
+      });
+    }
+
+    const { filter, error: filterError } = parseReviewFilter(req.query);
+    if (filterError) {
+      return res.status(400).json({
+        error: 'Invalid filter',
+        message: filterError
+      });
+    }
+
+    const { countries, error: countriesError } = parseCountries(req.query.countries);
+    if (countriesError) {
+      return res.status(400).json({
+        error: 'Invalid countries',
+        message: countriesError
+      });
+    }
+
+    const validSorts = ['newest', 'rating', 'helpfulness'];
+    const sortOrder = validSorts.includes(sort as string) ? sort as 'newest' | 'rating' | 'helpfulness' : 'newest';
+    const numReviews = resolveScanCount(num, 500, filter, sortOrder === 'newest');
+    const options: ReviewOptions = {
+      appId,
+      lang: lang as string,
+      country: country as string,
+      sort: sortOrder,
+      num: numReviews,
+      filter: filter || undefined,
+      signal
+    };
+    let stopReason: FetchStopReason | undefined;
+    let summary: AggregationSummary | null = null;
+    let batches: AsyncIterable<ReviewData[]>;
+
+    if (countries) {
+      summary = countryAggregator.createSummary(countries);
+      batches = countryAggregator.stream(countries, (storefront, report) => mapBatches(reviewService.streamReviews({
+        ...options,
+        country: storefront,
+        onProgress: count => { report.scannedCount = count; },
+        onPageFailed: failure => report.failedPages.push(failure),
+        onStop: reason => { report.stopReason = reason; }
+      }), batch => batch.reviews), summary, signal);
+    } else {
+      batches = mapBatches(reviewService.streamReviews({ ...options, onStop: reason => { stopReason = reason; } }), batch => batch.reviews);
+    }
+
+    const include = columnIncludes(columns);
+    await streamReviewsToResponse(res, format as StreamFormat, `${appId}_reviews_${Date.now()}`, mapBatches(batches, reviews => applyIncludes(reviews, include, lang as string)), {
+      dialect,
+      header: csvService.getReviewsCSVHeader(dialect, columns),
+      formatRow: review => csvService.formatReviewCSVRow(review, dialect, columns)
+    }, parseFieldList(req.query.columns) && columnProjection(columns), exportTrailer(summary, () => stopReason));
+
+  } catch (error) {
+    if (handleAbortedRequest(res, signal)) return;
+    console.error('Error in streaming export endpoint:', error);
+    if (res.headersSent) {
+      // The status line is already out; abort so the client sees a truncated transfer
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
+    res.status(500).json({
+      error: 'Failed to export reviews',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * GET /api/reviews/:appId/stream
+ * Fetch reviews and report progress as Server-Sent Events
+ * Events:
+ * - progress: { batch, fetched, requested, nextToken, elapsedMs, etaMs }
+ * - reviews: { batch, reviews }
+ * - summary: { fetched, requested, batches, durationMs, reachedEnd, partial }
+ * - error: { error, message }
+ * Query parameters:
+ * - num: Number of reviews to fetch (default: 500)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - sort: Sort order - 'newest', 'rating', 'helpfulness' (default: 'newest')
+ * - fields: Comma-separated review fields to return (default: all)
+ * - include: Comma-separated annotations to add - 'sentiment'
+ */
+router.get('/:appId/stream', async (req: Request, res: Response) => {
+  const signal = createRequestSignal(req, res);
+
+  try {
+    const { appId } = req.params;
+    const {
+      num = '500',
+      lang = appConfig.defaults.lang,
+      country = appConfig.defaults.country,
+      sort = 'newest'
+    } = req.query;
+
+    const { include, error: includeError } = parseIncludeOptions(req.query.include);
+    if (!include) {
+      return res.status(400).json({
+        error: 'Invalid include',
+        message: includeError
+      });
+    }
+
+    const { fields, error: fieldsError } = parseFieldsProjection(req.query.fields, [...googlePlayFields, ...include]);
+    if (fieldsError) {
+      return res.status(400).json({
+        error: 'Invalid fields',
+        message: fieldsError
+      });
+    }
+
+    const numReviews = Math.max(parseInt(num as string) || 500, 1);
+    const validSorts = ['newest', 'rating', 'helpfulness'];
+    const sortOrder = validSorts.includes(sort as string) ? sort as 'newest' | 'rating' | 'helpfulness' : 'newest';
+    const failedPages: FailedPage[] = [];
+
+    const batches = reviewService.streamReviews({
+      appId,
+      lang: lang as string,
+      country: country as string,
+      sort: sortOrder,
+      num: numReviews,
+      bypassCache: shouldBypassCache(req),
+      signal,
+      onPageFailed: failure => failedPages.push(failure)
+    });
+
+    await streamReviewEvents(res, mapBatches(batches, batch => ({
+      reviews: applyIncludes(batch.reviews, include, lang as string),
+      nextToken: batch.nextPaginationToken || null
+    })), { requested: numReviews, fields, failedPages });
+
+  } catch (error) {
+    console.error('Error in review stream endpoint:', error);
+    if (await handleEventStreamError(res, signal, error)) return;
+    res.status(500).json({
+      error: 'Failed to fetch reviews',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
 /**
  * POST /api/reviews/export/csv
- * Export reviews to CSV format
+ * Start a background job exporting reviews to CSV or XLSX format; poll GET /api/jobs/:id for the result
  * Body parameters:
  * - url: Google Play Store URL (required)
- * - num: Number of reviews to export (default: 500, no limit)
- * - lang: Language code (default: 'tr')
- * - country: Country code (default: 'tr')
+ * - num: Number of reviews to scan (default: 500, or every review since `since` when sorted by newest; no limit)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Country codes to combine instead of country, comma-separated string or array; num applies to each
  * - sort: Sort order (default: 'newest')
+ * - format: 'csv' or 'xlsx' (default: 'csv')
+ * - columns: Comma-separated columns in output order (default: id,userName,content,score,date,thumbsUp,version)
+ * - dialect: CSV preset - 'rfc4180', 'excel', 'legacy' (default: 'rfc4180')
+ * - delimiter, quoting, bom, nullValue, emoji: Overrides for the chosen preset
+ * - minScore, maxScore, since, until, version, language, text, textRegex, hasReply, minThumbsUp: Filters, as for GET /api/reviews/:appId
+ * The job result's `cutoff` tells whether a `since` cutoff was reached; with countries,
+ * `countryResults` holds per-country counts, stop reasons and failures instead
  */
 router.post('/export/csv', async (req: Request, res: Response) => {
   try {
     const {
       url,
-      num = '500',
-      lang = 'tr',
-      country = 'tr',
-      sort = 'newest'
+      num,
+      lang = appConfig.defaults.lang,
+      country = appConfig.defaults.country,
+      sort = 'newest',
+      format = 'csv'
     } = req.body;
 
     if (!url || typeof url !== 'string') {
@@ -242,55 +1266,128 @@ router.post('/export/csv', async (req: Request, res: Response) => {
       });
     }
 
-    const numReviews = Math.max(parseInt(num as string) || 500, 1); // Minimum 1, no maximum limit
-    const validSorts = ['newest', 'rating', 'helpfulness'];
-    const sortOrder = validSorts.includes(sort as string) ? sort as 'newest' | 'rating' | 'helpfulness' : 'newest';
+    if (!fileExportFormats.includes(format)) {
+      return res.status(400).json({
+        error: 'Invalid format',
+        message: `Format must be one of: ${fileExportFormats.join(', ')}`
+      });
+    }
 
-    // Fetch reviews
-    const options: ReviewOptions = {
-      appId,
-      lang: lang as string,
-      country: country as string,
-      sort: sortOrder,
-      num: numReviews,
-      paginate: false // Don't paginate for CSV export
-    };
+    const { dialect, error: dialectError } = parseCSVDialect(req.body);
+    if (!dialect) {
+      return res.status(400).json({
+        error: 'Invalid CSV dialect',
+        message: dialectError
+      });
+    }
 
-    const reviewData = await reviewService.getReviews(options);
+    const { columns, error: columnsError } = resolveColumns(GOOGLE_PLAY_COLUMNS, req.body.columns, DEFAULT_GOOGLE_PLAY_COLUMNS);
+    if (!columns) {
+      return res.status(400).json({
+        error: 'Invalid columns',
+        message: columnsError
+      });
+    }
 
-    if (reviewData.reviews.length === 0) {
-      return res.status(404).json({
-        error: 'No reviews found',
-        message: 'No reviews found for the specified app'
+    const { filter, error: filterError } = parseReviewFilter(req.body);
+    if (filterError) {
+      return res.status(400).json({
+        error: 'Invalid filter',
+        message: filterError
       });
     }
 
-    // Export to CSV
-    const filePath = await csvService.exportReviewsToCSV(reviewData.reviews, {
-      appId,
-      filename: `${appId}_reviews_${Date.now()}.csv`
-    });
+    const { countries, error: countriesError } = parseCountries(req.body.countries);
+    if (countriesError) {
+      return res.status(400).json({
+        error: 'Invalid countries',
+        message: countriesError
+      });
+    }
+
+    const validSorts = ['newest', 'rating', 'helpfulness'];
+    const sortOrder = validSorts.includes(sort as string) ? sort as 'newest' | 'rating' | 'helpfulness' : 'newest';
+    const numReviews = resolveScanCount(num, 500, filter, sortOrder === 'newest');
+    const requestedCount = Number.isFinite(numReviews) ? numReviews * (countries?.length || 1) : undefined;
+
+    const job = jobService.create({
+      type: 'export',
+      params: { platform: 'google-play', url, appId, sort: sortOrder, lang, country, countries, format, dialect, columns: columns.map(column => column.key), filter },
+      requestedCount
+    }, async ({ signal, reportProgress }) => {
+      const options: ReviewOptions = {
+        appId,
+        lang: lang as string,
+        country: country as string,
+        sort: sortOrder,
+        num: numReviews,
+        paginate: false, // Don't paginate for CSV export
+        filter: filter || undefined,
+        signal
+      };
+      let reviewData: ReviewResponse;
+      let summary: AggregationSummary | null = null;
+
+      if (countries) {
+        const progress = countryProgress(reportProgress);
+        const { reviews, scannedCount, ...aggregation } = await countryAggregator.aggregate(countries, (storefront, report) => mapBatches(reviewService.streamReviews({
+          ...options,
+          country: storefront,
+          onProgress: count => progress(storefront, report, count),
+          onPageFailed: failure => report.failedPages.push(failure),
+          onStop: reason => { report.stopReason = reason; }
+        }), batch => batch.reviews), signal);
+
+        summary = aggregation;
+        reviewData = { reviews, totalCount: reviews.length, filterStats: { scannedCount, matchedCount: reviews.length } };
+      } else {
+        reviewData = await reviewService.getReviews({ ...options, onProgress: reportProgress });
+      }
 
-    const stats = csvService.getExportStats(filePath);
+      if (reviewData.reviews.length === 0) {
+        throw new Error('No reviews found for the specified app');
+      }
 
-    res.json({
+      const filename = `${appId}_reviews_${Date.now()}.${format}`;
+      const filePath = format === 'xlsx'
+        ? await xlsxService.exportReviewsToXLSX(reviewData.reviews, { appId, filename, columns, signal })
+        : await csvService.exportReviewsToCSV(reviewData.reviews, { appId, filename, dialect, columns, signal });
+
+      const stats = csvService.getExportStats(filePath, reviewData.reviews.length);
+
+      return {
+        result: {
+          exportInfo: stats,
+          reviewCount: reviewData.reviews.length,
+          appId,
+          filterStats: reviewData.filterStats || null,
+          languageCounts: languageDetector.count(reviewData.reviews),
+          cutoff: summary ? null : describeCutoff(filter, reviewData.stopReason),
+          partial: reviewData.partial || null,
+          ...describeCountries(countries, summary)
+        },
+        downloadUrl: `/api/reviews/download/${stats.fileName}`,
+        errors: summary ? describeCountryFailures(summary) : describeFailedPages(reviewData.partial)
+      };
+    });
+
+    res.status(202).json({
       success: true,
       data: {
-        message: 'Reviews exported successfully',
-        exportInfo: stats,
-        reviewCount: reviewData.reviews.length,
-        appId,
-        downloadUrl: `/api/reviews/download/${stats.fileName}`
+        message: 'Export job started',
+        jobId: job.id,
+        state: job.state,
+        statusUrl: `/api/jobs/${job.id}`
       },
       meta: {
         url,
         appId,
-        requestedCount: numReviews,
-        actualCount: reviewData.reviews.length,
+        requestedCount: requestedCount ?? null,
         sort: sortOrder,
         lang,
         country,
-        exportedAt: new Date().toISOString()
+        countries: countries || null,
+        createdAt: job.createdAt
       }
     });
 
@@ -305,16 +1402,22 @@ router.post('/export/csv', async (req: Request, res: Response) => {
 
 /**
  * GET /api/reviews/download/:filename
- * Download exported CSV file
+ * Download an exported CSV or XLSX file
  */
 router.get('/download/:filename', async (req: Request, res: Response) => {
   try {
     const { filename } = req.params;
     
-    if (!filename || !filename.endsWith('.csv')) {
+    const contentTypes: Record<string, string> = {
+      '.csv': 'text/csv',
+      '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    };
+    const contentType = filename ? contentTypes[path.extname(filename)] : undefined;
+
+    if (!filename || !contentType || filename !== path.basename(filename)) {
       return res.status(400).json({
         error: 'Invalid filename',
-        message: 'Filename must be a valid CSV file'
+        message: 'Filename must be a valid CSV or XLSX file'
       });
     }
 
@@ -325,12 +1428,12 @@ router.get('/download/:filename', async (req: Request, res: Response) => {
     if (!fs.existsSync(filePath)) {
       return res.status(404).json({
         error: 'File not found',
-        message: 'The requested CSV file does not exist'
+        message: 'The requested export file does not exist'
       });
     }
 
     // Set headers for file download
-    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Type', contentType);
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
     
     // Send file
@@ -350,15 +1453,15 @@ router.get('/download/:filename', async (req: Request, res: Response) => {
  * Search for apps in iOS App Store
  * Query parameters:
  * - q: Search query (required)
- * - num: Number of results (default: 20, max: 50)
- * - country: Country code (default: 'tr')
+ * - num: Number of results (default: 20, max: MAX_SEARCH_RESULTS)
+ * - country: Country code (default: DEFAULT_COUNTRY)
  */
 router.get('/appstore/search', async (req: Request, res: Response) => {
   try {
     const {
       q,
       num = '20',
-      country = 'tr'
+      country = appConfig.defaults.country
     } = req.query;
 
     if (!q || typeof q !== 'string') {
@@ -368,11 +1471,12 @@ router.get('/appstore/search', async (req: Request, res: Response) => {
       });
     }
 
-    const numResults = Math.max(parseInt(num as string) || 20, 1);
+    const numResults = Math.min(Math.max(parseInt(num as string) || 20, 1), appConfig.limits.maxSearchResults);
 
     const results = await appStoreService.searchApps(q, {
       num: numResults,
-      country: country as string
+      country: country as string,
+      bypassCache: shouldBypassCache(req)
     });
 
     res.json({
@@ -403,16 +1507,29 @@ router.get('/appstore/search', async (req: Request, res: Response) => {
  * Path parameters:
  * - appId: App Store app ID (required)
  * Query parameters:
- * - num: Number of reviews to fetch (default: 100, max: 500)
- * - country: Country code (default: 'tr')
+ * - num: Number of reviews to fetch (default: 100, or every review since `since` when sorted by mostRecent; max: 500)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Comma-separated country codes to combine instead of country; num applies to each
  * - sort: Sort order - 'mostRecent', 'mostHelpful' (default: 'mostRecent')
+ * - fields: Comma-separated review fields to return (default: all)
+ * - include: Comma-separated annotations to add - 'sentiment'
+ * - minScore, maxScore: Score range, 1-5
+ * - since, until: Only reviews written in [since, until) (ISO 8601); sorted by mostRecent, fetching stops once past `since`
+ * - version: Comma-separated app versions
+ * - language: Comma-separated detected languages, e.g. tr,en
+ * - text: Case-insensitive substring of the review title or text
+ * - textRegex: Case-insensitive RE2 regular expression matched against the review title or text
+ * Filters apply to the fetched reviews, so num is the number scanned, not matched.
+ * hasReply and minThumbsUp are rejected: App Store reviews carry neither.
  */
 router.get('/appstore/:appId', async (req: Request, res: Response) => {
+  const signal = createRequestSignal(req, res);
+
   try {
     const { appId } = req.params;
     const {
-      num = '100',
-      country = 'tr',
+      num,
+      country = appConfig.defaults.country,
       sort = 'mostRecent'
     } = req.query;
 
@@ -423,17 +1540,76 @@ router.get('/appstore/:appId', async (req: Request, res: Response) => {
       });
     }
 
-    const numReviews = Math.max(parseInt(num as string) || 100, 1); // Minimum 1, no maximum limit
+    const { include, error: includeError } = parseIncludeOptions(req.query.include);
+    if (!include) {
+      return res.status(400).json({
+        error: 'Invalid include',
+        message: includeError
+      });
+    }
+
+    const { fields, error: fieldsError } = parseFieldsProjection(req.query.fields, [...appStoreFields, ...include]);
+    if (fieldsError) {
+      return res.status(400).json({
+        error: 'Invalid fields',
+        message: fieldsError
+      });
+    }
+
+    const { filter, error: filterError } = parseReviewFilter(req.query, ['hasReply', 'minThumbsUp']);
+    if (filterError) {
+      return res.status(400).json({
+        error: 'Invalid filter',
+        message: filterError
+      });
+    }
+
+    const { countries, error: countriesError } = parseCountries(req.query.countries);
+    if (countriesError) {
+      return res.status(400).json({
+        error: 'Invalid countries',
+        message: countriesError
+      });
+    }
+
     const validSorts = ['mostRecent', 'mostHelpful'];
     const sortOrder = validSorts.includes(sort as string) ? sort as 'mostRecent' | 'mostHelpful' : 'mostRecent';
+    const numReviews = resolveScanCount(num, 100, filter, sortOrder === 'mostRecent');
+
+    let reviewData: AppStoreReviewResponse;
+    let aggregation: AggregationSummary | null = null;
 
-    let reviewData;
-    if (numReviews <= 50) {
+    if (countries) {
+      // App Store reviews are per storefront, so every country is paged separately
+      const { reviews, scannedCount, ...summary } = await countryAggregator.aggregate(countries, (storefront, report) => appStoreService.streamReviews({
+        appId,
+        country: storefront,
+        sort: sortOrder,
+        totalReviews: numReviews,
+        bypassCache: shouldBypassCache(req),
+        filter: filter || undefined,
+        signal,
+        onProgress: count => { report.scannedCount = count; },
+        onPageFailed: failure => report.failedPages.push(failure),
+        onStop: reason => { report.stopReason = reason; }
+      }), signal);
+
+      aggregation = summary;
+      reviewData = {
+        reviews,
+        hasMore: Object.values(summary.countries).some(result => result.stopReason === 'limit'),
+        totalCount: reviews.length,
+        filterStats: { scannedCount, matchedCount: reviews.length }
+      };
+    } else if (numReviews <= 50) {
       // Single page request
       reviewData = await appStoreService.getReviews({
         appId,
         country: country as string,
-        sort: sortOrder
+        sort: sortOrder,
+        bypassCache: shouldBypassCache(req),
+        filter: filter || undefined,
+        signal
       });
     } else {
       // Multi-page request
@@ -441,26 +1617,39 @@ router.get('/appstore/:appId', async (req: Request, res: Response) => {
         appId,
         country: country as string,
         sort: sortOrder,
-        totalReviews: numReviews
+        totalReviews: numReviews,
+        bypassCache: shouldBypassCache(req),
+        filter: filter || undefined,
+        signal
       });
     }
 
+    const reviews = applyIncludes(reviewData.reviews, include);
+
     res.json({
       success: true,
-      data: reviewData.reviews,
+      data: fields ? pickFields(reviews, fields) : reviews,
       meta: {
         appId,
-        requestedCount: numReviews,
+        requestedCount: Number.isFinite(numReviews) ? numReviews : null,
         actualCount: reviewData.reviews.length,
+        scannedCount: reviewData.filterStats?.scannedCount ?? reviewData.reviews.length,
+        matchedCount: reviewData.filterStats?.matchedCount ?? reviewData.reviews.length,
+        filter: filter || null,
+        // Combined storefronts report their stop reasons in countryResults
+        cutoff: aggregation ? null : describeCutoff(filter, reviewData.stopReason),
         hasMore: reviewData.hasMore,
+        partial: reviewData.partial || null,
         sort: sortOrder,
         country,
+        ...describeCountries(countries, aggregation),
         platform: 'appstore',
         fetchedAt: new Date().toISOString()
       }
     });
 
   } catch (error) {
+    if (handleAbortedRequest(res, signal)) return;
     console.error('Error in App Store reviews endpoint:', error);
     res.status(500).json({
       error: 'Failed to fetch App Store reviews',
@@ -476,7 +1665,7 @@ router.get('/appstore/:appId', async (req: Request, res: Response) => {
 router.get('/appstore/:appId/info', async (req: Request, res: Response) => {
   try {
     const { appId } = req.params;
-    const { country = 'tr' } = req.query;
+    const { country = appConfig.defaults.country } = req.query;
 
     if (!appId || typeof appId !== 'string') {
       return res.status(400).json({
@@ -485,7 +1674,9 @@ router.get('/appstore/:appId/info', async (req: Request, res: Response) => {
       });
     }
 
-    const appInfo = await appStoreService.getAppInfo(appId, country as string);
+    const appInfo = await appStoreService.getAppInfo(appId, country as string, {
+      bypassCache: shouldBypassCache(req)
+    });
 
     res.json({
       success: true,
@@ -507,22 +1698,246 @@ router.get('/appstore/:appId/info', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/reviews/appstore/:appId/sync
+ * Fetch new App Store reviews into the local database, stopping at the first already stored review
+ */
+router.post('/appstore/:appId/sync', createSyncHandler('app-store'));
+
+/**
+ * GET /api/reviews/appstore/:appId/stored
+ * List App Store reviews kept in the local database
+ */
+router.get('/appstore/:appId/stored', createStoredReviewsHandler('app-store'));
+
+/**
+ * GET /api/reviews/appstore/:appId/topics
+ * Top keywords and word pairs of 1-2 star and 4-5 star App Store reviews
+ */
+router.get('/appstore/:appId/topics', createTopicsHandler('app-store'));
+
+/**
+ * GET /api/reviews/appstore/:appId/analytics
+ * App Store rating statistics per day or week and per app version
+ */
+router.get('/appstore/:appId/analytics', createAnalyticsHandler('app-store'));
+
+/**
+ * GET /api/reviews/appstore/:appId/releases
+ * Compare each App Store release with the previous one and flag rating regressions
+ */
+router.get('/appstore/:appId/releases', createReleasesHandler('app-store'));
+
+/**
+ * GET /api/reviews/appstore/:appId/export
+ * Stream App Store reviews straight to the response, page by page, as they are fetched
+ * Query parameters:
+ * - format: 'csv' or 'ndjson' (default: 'csv')
+ * - num: Number of reviews to scan (default: 500, or every review since `since` when sorted by mostRecent; no limit)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Comma-separated country codes to combine instead of country; num applies to each
+ * - sort: Sort order (default: 'mostRecent')
+ * - columns: Comma-separated columns in output order (default: id,userName,title,content,score,version,date)
+ * - dialect: CSV preset - 'rfc4180', 'excel', 'legacy' (default: 'rfc4180')
+ * - delimiter, quoting, bom, nullValue, emoji: Overrides for the chosen preset
+ * - minScore, maxScore, since, until, version, language, text, textRegex: Filters, as for GET /api/reviews/appstore/:appId
+ * Trailers report why fetching ended or which storefronts failed, as for GET /api/reviews/:appId/export
+ */
+router.get('/appstore/:appId/export', async (req: Request, res: Response) => {
+  const signal = createRequestSignal(req, res);
+
+  try {
+    const { appId } = req.params;
+    const {
+      format = 'csv',
+      num,
+      country = appConfig.defaults.country,
+      sort = 'mostRecent'
+    } = req.query;
+
+    if (!streamFormats.includes(format as StreamFormat)) {
+      return res.status(400).json({
+        error: 'Invalid format',
+        message: `Format must be one of: ${streamFormats.join(', ')}`
+      });
+    }
+
+    const { dialect, error: dialectError } = parseCSVDialect(req.query);
+    if (!dialect) {
+      return res.status(400).json({
+        error: 'Invalid CSV dialect',
+        message: dialectError
+      });
+    }
+
+    const { columns, error: columnsError } = resolveColumns(APP_STORE_COLUMNS, req.query.columns, DEFAULT_APP_STORE_COLUMNS);
+    if (!columns) {
+      return res.status(400).json({
+        error: 'Invalid columns',
+        message: columnsError
+      });
+    }
+
+    const { filter, error: filterError } = parseReviewFilter(req.query, ['hasReply', 'minThumbsUp']);
+    if (filterError) {
+      return res.status(400).json({
+        error: 'Invalid filter',
+        message: filterError
+      });
+    }
+
+    const { countries, error: countriesError } = parseCountries(req.query.countries);
+    if (countriesError) {
+      return res.status(400).json({
+        error: 'Invalid countries',
+        message: countriesError
+      });
+    }
+
+    const validSorts = ['mostRecent', 'mostHelpful'];
+    const sortOrder = validSorts.includes(sort as string) ? sort as 'mostRecent' | 'mostHelpful' : 'mostRecent';
+    const numReviews = resolveScanCount(num, 500, filter, sortOrder === 'mostRecent');
+    const options = {
+      appId,
+      country: country as string,
+      sort: sortOrder,
+      totalReviews: numReviews,
+      filter: filter || undefined,
+      signal
+    };
+    let stopReason: FetchStopReason | undefined;
+    let summary: AggregationSummary | null = null;
+    let batches: AsyncIterable<AppStoreReviewData[]>;
+
+    if (countries) {
+      summary = countryAggregator.createSummary(countries);
+      batches = countryAggregator.stream(countries, (storefront, report) => appStoreService.streamReviews({
+        ...options,
+        country: storefront,
+        onProgress: count => { report.scannedCount = count; },
+        onPageFailed: failure => report.failedPages.push(failure),
+        onStop: reason => { report.stopReason = reason; }
+      }), summary, signal);
+    } else {
+      batches = appStoreService.streamReviews({ ...options, onStop: reason => { stopReason = reason; } });
+    }
+
+    const include = columnIncludes(columns);
+    await streamReviewsToResponse(res, format as StreamFormat, `appstore_${appId}_reviews_${Date.now()}`, mapBatches(batches, reviews => applyIncludes(reviews, include)), {
+      dialect,
+      header: csvService.getAppStoreReviewsCSVHeader(dialect, columns),
+      formatRow: review => csvService.formatAppStoreReviewCSVRow(review, dialect, columns)
+    }, parseFieldList(req.query.columns) && columnProjection(columns), exportTrailer(summary, () => stopReason));
+
+  } catch (error) {
+    if (handleAbortedRequest(res, signal)) return;
+    console.error('Error in App Store streaming export endpoint:', error);
+    if (res.headersSent) {
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
+    res.status(500).json({
+      error: 'Failed to export App Store reviews',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * GET /api/reviews/appstore/:appId/stream
+ * Fetch App Store reviews and report progress as Server-Sent Events;
+ * events are the same as GET /api/reviews/:appId/stream, with page numbers as tokens
+ * Query parameters:
+ * - num: Number of reviews to fetch (default: 500)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - sort: Sort order - 'mostRecent', 'mostHelpful' (default: 'mostRecent')
+ * - fields: Comma-separated review fields to return (default: all)
+ * - include: Comma-separated annotations to add - 'sentiment'
+ */
+router.get('/appstore/:appId/stream', async (req: Request, res: Response) => {
+  const signal = createRequestSignal(req, res);
+
+  try {
+    const { appId } = req.params;
+    const {
+      num = '500',
+      country = appConfig.defaults.country,
+      sort = 'mostRecent'
+    } = req.query;
+
+    const { include, error: includeError } = parseIncludeOptions(req.query.include);
+    if (!include) {
+      return res.status(400).json({
+        error: 'Invalid include',
+        message: includeError
+      });
+    }
+
+    const { fields, error: fieldsError } = parseFieldsProjection(req.query.fields, [...appStoreFields, ...include]);
+    if (fieldsError) {
+      return res.status(400).json({
+        error: 'Invalid fields',
+        message: fieldsError
+      });
+    }
+
+    const numReviews = Math.max(parseInt(num as string) || 500, 1);
+    const validSorts = ['mostRecent', 'mostHelpful'];
+    const sortOrder = validSorts.includes(sort as string) ? sort as 'mostRecent' | 'mostHelpful' : 'mostRecent';
+    const failedPages: FailedPage[] = [];
+    let pagesFetched = 0;
+
+    const batches = appStoreService.streamReviews({
+      appId,
+      country: country as string,
+      sort: sortOrder,
+      totalReviews: numReviews,
+      bypassCache: shouldBypassCache(req),
+      signal,
+      onPageFailed: failure => failedPages.push(failure)
+    });
+
+    await streamReviewEvents(res, mapBatches(batches, reviews => {
+      // Every page either yields or fails, in order
+      const page = ++pagesFetched + failedPages.length;
+      return { reviews: applyIncludes(reviews, include), nextToken: reviews.length === 50 ? String(page + 1) : null };
+    }), { requested: numReviews, fields, failedPages });
+
+  } catch (error) {
+    console.error('Error in App Store review stream endpoint:', error);
+    if (await handleEventStreamError(res, signal, error)) return;
+    res.status(500).json({
+      error: 'Failed to fetch App Store reviews',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
 /**
  * POST /api/reviews/appstore/export/csv
- * Export App Store reviews to CSV format
+ * Start a background job exporting App Store reviews to CSV or XLSX format; poll GET /api/jobs/:id for the result
  * Body parameters:
  * - url: App Store URL (required)
- * - num: Number of reviews to export (default: 500, no limit)
- * - country: Country code (default: 'tr')
+ * - num: Number of reviews to scan (default: 500, or every review since `since` when sorted by mostRecent; no limit)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - countries: Country codes to combine instead of country, comma-separated string or array; num applies to each
  * - sort: Sort order (default: 'mostRecent')
+ * - format: 'csv' or 'xlsx' (default: 'csv')
+ * - columns: Comma-separated columns in output order (default: id,userName,title,content,score,version,date)
+ * - dialect: CSV preset - 'rfc4180', 'excel', 'legacy' (default: 'rfc4180')
+ * - delimiter, quoting, bom, nullValue, emoji: Overrides for the chosen preset
+ * - minScore, maxScore, since, until, version, language, text, textRegex: Filters, as for GET /api/reviews/appstore/:appId
+ * The job result's `cutoff` tells whether a `since` cutoff was reached; with countries,
+ * `countryResults` holds per-country counts, stop reasons and failures instead
  */
 router.post('/appstore/export/csv', async (req: Request, res: Response) => {
   try {
     const {
       url,
-      num = '500',
-      country = 'tr',
-      sort = 'mostRecent'
+      num,
+      country = appConfig.defaults.country,
+      sort = 'mostRecent',
+      format = 'csv'
     } = req.body;
 
     if (!url || typeof url !== 'string') {
@@ -541,61 +1956,151 @@ router.post('/appstore/export/csv', async (req: Request, res: Response) => {
       });
     }
 
-    const numReviews = Math.max(parseInt(num as string) || 500, 1); // Minimum 1, no maximum limit
-    const validSorts = ['mostRecent', 'mostHelpful'];
-    const sortOrder = validSorts.includes(sort as string) ? sort as 'mostRecent' | 'mostHelpful' : 'mostRecent';
+    if (!fileExportFormats.includes(format)) {
+      return res.status(400).json({
+        error: 'Invalid format',
+        message: `Format must be one of: ${fileExportFormats.join(', ')}`
+      });
+    }
 
-    // Fetch reviews
-    let reviewData;
-    if (numReviews <= 50) {
-      reviewData = await appStoreService.getReviews({
-        appId,
-        country: country as string,
-        sort: sortOrder
+    const { dialect, error: dialectError } = parseCSVDialect(req.body);
+    if (!dialect) {
+      return res.status(400).json({
+        error: 'Invalid CSV dialect',
+        message: dialectError
       });
-    } else {
-      reviewData = await appStoreService.getReviewsWithPagination({
-        appId,
-        country: country as string,
-        sort: sortOrder,
-        totalReviews: numReviews
+    }
+
+    const { columns, error: columnsError } = resolveColumns(APP_STORE_COLUMNS, req.body.columns, DEFAULT_APP_STORE_COLUMNS);
+    if (!columns) {
+      return res.status(400).json({
+        error: 'Invalid columns',
+        message: columnsError
       });
     }
 
-    if (reviewData.reviews.length === 0) {
-      return res.status(404).json({
-        error: 'No reviews found',
-        message: 'No reviews found for the specified App Store app'
+    const { filter, error: filterError } = parseReviewFilter(req.body, ['hasReply', 'minThumbsUp']);
+    if (filterError) {
+      return res.status(400).json({
+        error: 'Invalid filter',
+        message: filterError
       });
     }
 
-    // Export to CSV
-    const filePath = await csvService.exportAppStoreReviewsToCSV(reviewData.reviews, {
-      appId,
-      platform: 'app-store',
-      filename: `appstore_${appId}_reviews_${Date.now()}.csv`
-    });
+    const { countries, error: countriesError } = parseCountries(req.body.countries);
+    if (countriesError) {
+      return res.status(400).json({
+        error: 'Invalid countries',
+        message: countriesError
+      });
+    }
 
-    const stats = csvService.getExportStats(filePath);
+    const validSorts = ['mostRecent', 'mostHelpful'];
+    const sortOrder = validSorts.includes(sort as string) ? sort as 'mostRecent' | 'mostHelpful' : 'mostRecent';
+    const numReviews = resolveScanCount(num, 500, filter, sortOrder === 'mostRecent');
+    const requestedCount = Number.isFinite(numReviews) ? numReviews * (countries?.length || 1) : undefined;
+
+    const job = jobService.create({
+      type: 'export',
+      params: { platform: 'app-store', url, appId, sort: sortOrder, country, countries, format, dialect, columns: columns.map(column => column.key), filter },
+      requestedCount
+    }, async ({ signal, reportProgress }) => {
+      let reviewData: AppStoreReviewResponse;
+      let summary: AggregationSummary | null = null;
+
+      if (countries) {
+        const progress = countryProgress(reportProgress);
+        const { reviews, scannedCount, ...aggregation } = await countryAggregator.aggregate(countries, (storefront, report) => appStoreService.streamReviews({
+          appId,
+          country: storefront,
+          sort: sortOrder,
+          totalReviews: numReviews,
+          filter: filter || undefined,
+          signal,
+          onProgress: count => progress(storefront, report, count),
+          onPageFailed: failure => report.failedPages.push(failure),
+          onStop: reason => { report.stopReason = reason; }
+        }), signal);
+
+        summary = aggregation;
+        reviewData = {
+          reviews,
+          hasMore: false,
+          totalCount: reviews.length,
+          filterStats: { scannedCount, matchedCount: reviews.length }
+        };
+      } else if (numReviews <= 50) {
+        reviewData = await appStoreService.getReviews({
+          appId,
+          country: country as string,
+          sort: sortOrder,
+          filter: filter || undefined,
+          signal
+        });
+        reportProgress(reviewData.filterStats?.scannedCount ?? reviewData.reviews.length);
+      } else {
+        reviewData = await appStoreService.getReviewsWithPagination({
+          appId,
+          country: country as string,
+          sort: sortOrder,
+          totalReviews: numReviews,
+          filter: filter || undefined,
+          signal,
+          onProgress: reportProgress
+        });
+      }
 
-    res.json({
+      if (reviewData.reviews.length === 0) {
+        throw new Error('No reviews found for the specified App Store app');
+      }
+
+      const filename = `appstore_${appId}_reviews_${Date.now()}.${format}`;
+      const filePath = format === 'xlsx'
+        ? await xlsxService.exportAppStoreReviewsToXLSX(reviewData.reviews, { appId, filename, columns, signal })
+        : await csvService.exportAppStoreReviewsToCSV(reviewData.reviews, {
+          appId,
+          platform: 'app-store',
+          filename,
+          dialect,
+          columns,
+          signal
+        });
+
+      const stats = csvService.getExportStats(filePath, reviewData.reviews.length);
+
+      return {
+        result: {
+          exportInfo: stats,
+          reviewCount: reviewData.reviews.length,
+          appId,
+          filterStats: reviewData.filterStats || null,
+          languageCounts: languageDetector.count(reviewData.reviews),
+          cutoff: summary ? null : describeCutoff(filter, reviewData.stopReason),
+          partial: reviewData.partial || null,
+          ...describeCountries(countries, summary)
+        },
+        downloadUrl: `/api/reviews/download/${stats.fileName}`,
+        errors: summary ? describeCountryFailures(summary) : describeFailedPages(reviewData.partial)
+      };
+    });
+
+    res.status(202).json({
       success: true,
       data: {
-        message: 'App Store reviews exported successfully',
-        exportInfo: stats,
-        reviewCount: reviewData.reviews.length,
-        appId,
-        downloadUrl: `/api/reviews/download/${stats.fileName}`
+        message: 'App Store export job started',
+        jobId: job.id,
+        state: job.state,
+        statusUrl: `/api/jobs/${job.id}`
       },
       meta: {
         url,
         appId,
-        requestedCount: numReviews,
-        actualCount: reviewData.reviews.length,
+        requestedCount: requestedCount ?? null,
         sort: sortOrder,
         country,
+        countries: countries || null,
         platform: 'appstore',
-        exportedAt: new Date().toISOString()
+        createdAt: job.createdAt
       }
     });
 
@@ -0,0 +1,232 @@
+import { Router, Request, Response } from 'express';
+import { getStoreAdapter, listPlatforms, resolvePlatform } from '../services/adapters';
+import { StoreAdapter, StoreSort, UNIFIED_REVIEW_FIELDS } from '../services/storeAdapter';
+import { parseFieldsProjection, parseIncludeOptions, applyIncludes, pickFields } from '../services/reviewColumns';
+import { shouldBypassCache } from '../middleware/conditionalGet';
+import { appConfig } from '../config';
+import { createRequestSignal, handleAbortedRequest } from '../middleware/requestSignal';
+
+const router = Router();
+
+/**
+ * Resolve the adapter for the :platform parameter, answering 400 when unknown
+ * @returns Store adapter or null when a response has already been sent
+ */
+function resolveAdapter(req: Request, res: Response): StoreAdapter | null {
+  const platform = resolvePlatform(req.params.platform);
+
+  if (!platform) {
+    res.status(400).json({
+      error: 'Invalid platform',
+      message: `Platform must be one of: ${listPlatforms().join(', ')}`
+    });
+    return null;
+  }
+
+  return getStoreAdapter(platform);
+}
+
+/**
+ * GET /api/stores
+ * List supported store platforms
+ */
+router.get('/', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: listPlatforms().map(platform => ({
+      platform,
+      supportedSorts: getStoreAdapter(platform).supportedSorts
+    }))
+  });
+});
+
+/**
+ * GET /api/stores/:platform/search
+ * Search for apps in the given store
+ * Query parameters:
+ * - q: Search query (required)
+ * - num: Number of results (default: 20, max: MAX_SEARCH_RESULTS)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ */
+router.get('/:platform/search', async (req: Request, res: Response) => {
+  try {
+    const adapter = resolveAdapter(req, res);
+    if (!adapter) return;
+
+    const {
+      q,
+      num = '20',
+      lang = appConfig.defaults.lang,
+      country = appConfig.defaults.country
+    } = req.query;
+
+    if (!q || typeof q !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid search query',
+        message: 'Search query (q) is required'
+      });
+    }
+
+    const numResults = Math.min(Math.max(parseInt(num as string) || 20, 1), appConfig.limits.maxSearchResults);
+
+    const results = await adapter.searchApps(q, {
+      num: numResults,
+      lang: lang as string,
+      country: country as string,
+      bypassCache: shouldBypassCache(req)
+    });
+
+    res.json({
+      success: true,
+      data: results,
+      meta: {
+        query: q,
+        platform: adapter.platform,
+        requestedCount: numResults,
+        actualCount: results.length,
+        lang,
+        country,
+        searchedAt: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in store search endpoint:', error);
+    res.status(500).json({
+      error: 'Failed to search apps',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * GET /api/stores/:platform/apps/:appId
+ * Get detailed app information from the given store
+ */
+router.get('/:platform/apps/:appId', async (req: Request, res: Response) => {
+  try {
+    const adapter = resolveAdapter(req, res);
+    if (!adapter) return;
+
+    const { appId } = req.params;
+    const { lang = appConfig.defaults.lang, country = appConfig.defaults.country } = req.query;
+
+    const appInfo = await adapter.getAppInfo(appId, {
+      lang: lang as string,
+      country: country as string,
+      bypassCache: shouldBypassCache(req)
+    });
+
+    res.json({
+      success: true,
+      data: appInfo,
+      meta: {
+        appId,
+        platform: adapter.platform,
+        lang,
+        country,
+        fetchedAt: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in store app info endpoint:', error);
+    res.status(500).json({
+      error: 'Failed to fetch app information',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * GET /api/stores/:platform/apps/:appId/reviews
+ * Get normalized reviews for an app from the given store
+ * Query parameters:
+ * - num: Number of reviews to fetch (default: 100)
+ * - sort: 'newest', 'rating', 'helpfulness' (default: 'newest', must be supported by the store)
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - country: Country code (default: DEFAULT_COUNTRY)
+ * - fields: Comma-separated unified review fields to return (default: all)
+ * - include: Comma-separated annotations to add - 'sentiment'
+ */
+router.get('/:platform/apps/:appId/reviews', async (req: Request, res: Response) => {
+  const signal = createRequestSignal(req, res);
+
+  try {
+    const adapter = resolveAdapter(req, res);
+    if (!adapter) return;
+
+    const { appId } = req.params;
+    const {
+      num = '100',
+      sort = 'newest',
+      lang = appConfig.defaults.lang,
+      country = appConfig.defaults.country
+    } = req.query;
+
+    if (!adapter.supportedSorts.includes(sort as StoreSort)) {
+      return res.status(400).json({
+        error: 'Invalid sort order',
+        message: `Sort must be one of: ${adapter.supportedSorts.join(', ')}`
+      });
+    }
+
+    const { include, error: includeError } = parseIncludeOptions(req.query.include);
+    if (!include) {
+      return res.status(400).json({
+        error: 'Invalid include',
+        message: includeError
+      });
+    }
+
+    const { fields, error: fieldsError } = parseFieldsProjection(req.query.fields, [...UNIFIED_REVIEW_FIELDS, ...include]);
+    if (fieldsError) {
+      return res.status(400).json({
+        error: 'Invalid fields',
+        message: fieldsError
+      });
+    }
+
+    const numReviews = Math.max(parseInt(num as string) || 100, 1);
+
+    const result = await adapter.fetchReviews({
+      appId,
+      lang: lang as string,
+      country: country as string,
+      sort: sort as StoreSort,
+      num: numReviews,
+      bypassCache: shouldBypassCache(req),
+      signal
+    });
+
+    const reviews = applyIncludes(result.reviews, include, lang as string);
+
+    res.json({
+      success: true,
+      data: fields ? pickFields(reviews, fields) : reviews,
+      meta: {
+        appId,
+        platform: adapter.platform,
+        requestedCount: numReviews,
+        actualCount: result.reviews.length,
+        hasMore: result.hasMore,
+        partial: result.partial || null,
+        sort,
+        lang,
+        country,
+        fetchedAt: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    if (handleAbortedRequest(res, signal)) return;
+    console.error('Error in store reviews endpoint:', error);
+    res.status(500).json({
+      error: 'Failed to fetch reviews',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+export default router;
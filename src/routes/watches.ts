@@ -0,0 +1,209 @@
+import { Router, Request, Response } from 'express';
+import { watchService } from '../services/watchService';
+import { resolvePlatform } from '../services/adapters';
+import { parseFieldList } from '../services/reviewColumns';
+import { appConfig } from '../config';
+
+const router = Router();
+
+/**
+ * POST /api/watches
+ * Watch an app for new reviews
+ * Body parameters:
+ * - platform: 'google-play' or 'app-store' (aliases such as 'android', 'ios' are accepted; required)
+ * - appId: App ID (required)
+ * - countries: Countries to poll, comma-separated string or array (default: [DEFAULT_COUNTRY])
+ * - lang: Language code (default: DEFAULT_LANG)
+ * - intervalMinutes: Minutes between polls (default: WATCH_DEFAULT_INTERVAL_MINUTES)
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const { appId, lang, intervalMinutes } = req.body;
+
+    const platform = resolvePlatform(req.body.platform);
+    if (!platform) {
+      return res.status(400).json({
+        error: 'Unknown platform',
+        message: 'Platform must be one of: google-play, app-store'
+      });
+    }
+
+    if (!appId || typeof appId !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid app ID',
+        message: 'App ID is required and must be a valid string'
+      });
+    }
+
+    const countries = parseFieldList(req.body.countries) || [];
+    const invalidCountries = countries.filter(country => !/^[a-z]{2}$/i.test(country));
+    if (invalidCountries.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid countries',
+        message: `Countries must be two-letter codes: ${invalidCountries.join(', ')}`
+      });
+    }
+
+    if (lang !== undefined && (typeof lang !== 'string' || !/^[a-z]{2,3}([-_][A-Za-z]{2,4})?$/.test(lang))) {
+      return res.status(400).json({
+        error: 'Invalid language',
+        message: 'Language must be a language code such as "tr" or "en"'
+      });
+    }
+
+    const { minIntervalMinutes } = appConfig.watch;
+    const interval = intervalMinutes === undefined ? undefined : Number(intervalMinutes);
+    if (interval !== undefined && !(Number.isInteger(interval) && interval >= minIntervalMinutes)) {
+      return res.status(400).json({
+        error: 'Invalid interval',
+        message: `intervalMinutes must be a whole number of at least ${minIntervalMinutes}`
+      });
+    }
+
+    const watch = watchService.create({ platform, appId, countries, lang, intervalMinutes: interval });
+
+    res.status(201).json({
+      success: true,
+      data: watch
+    });
+
+  } catch (error) {
+    console.error('Error creating watch:', error);
+    res.status(500).json({
+      error: 'Failed to create watch',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * GET /api/watches
+ * List watched apps, newest first
+ */
+router.get('/', (req: Request, res: Response) => {
+  const watches = watchService.list();
+
+  res.json({
+    success: true,
+    data: watches,
+    meta: {
+      totalWatches: watches.length,
+      fetchedAt: new Date().toISOString()
+    }
+  });
+});
+
+/**
+ * GET /api/watches/:id
+ * Get a watch with its polling state
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const watch = watchService.get(req.params.id);
+
+  if (!watch) {
+    return res.status(404).json({
+      error: 'Watch not found',
+      message: 'The requested watch does not exist'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: watch
+  });
+});
+
+/**
+ * DELETE /api/watches/:id
+ * Stop watching an app and drop its discovered reviews
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  if (!watchService.delete(req.params.id)) {
+    return res.status(404).json({
+      error: 'Watch not found',
+      message: 'The requested watch does not exist'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: { id: req.params.id, deleted: true }
+  });
+});
+
+/**
+ * POST /api/watches/:id/poll
+ * Poll a watch now instead of waiting for its next scheduled poll
+ */
+router.post('/:id/poll', async (req: Request, res: Response) => {
+  try {
+    const poll = watchService.poll(req.params.id);
+
+    if (!poll) {
+      return res.status(404).json({
+        error: 'Watch not found',
+        message: 'The requested watch does not exist'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await poll
+    });
+
+  } catch (error) {
+    console.error('Error polling watch:', error);
+    res.status(500).json({
+      error: 'Failed to poll watch',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * GET /api/watches/:id/new
+ * Reviews discovered by a watch, newest first
+ * Query parameters:
+ * - since: ISO 8601 time; only reviews discovered after it (default: all)
+ * - limit: Maximum number of reviews to return (default: 100)
+ */
+router.get('/:id/new', (req: Request, res: Response) => {
+  const { since, limit = '100' } = req.query;
+
+  const sinceTime = since === undefined ? null : new Date(since as string);
+  if (sinceTime && isNaN(sinceTime.getTime())) {
+    return res.status(400).json({
+      error: 'Invalid since',
+      message: 'since must be an ISO 8601 date or time'
+    });
+  }
+
+  const watch = watchService.get(req.params.id);
+  const reviews = watchService.newReviews(req.params.id, {
+    since: sinceTime ? sinceTime.toISOString() : undefined,
+    limit: Math.max(parseInt(limit as string) || 100, 1)
+  });
+
+  if (!watch || !reviews) {
+    return res.status(404).json({
+      error: 'Watch not found',
+      message: 'The requested watch does not exist'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: reviews,
+    meta: {
+      watchId: watch.id,
+      appId: watch.appId,
+      platform: watch.platform,
+      since: sinceTime ? sinceTime.toISOString() : null,
+      actualCount: reviews.length,
+      lastPolledAt: watch.lastPolledAt,
+      nextPollAt: watch.nextPollAt
+    }
+  });
+});
+
+export default router;
@@ -0,0 +1,228 @@
+import { Router, Request, Response } from 'express';
+import { webhookService, WebhookFilters, DeliveryState } from '../services/webhookService';
+import { REVIEW_EVENT_TYPES, ReviewEventType } from '../services/reviewEvents';
+import { resolvePlatform } from '../services/adapters';
+import { parseFieldList } from '../services/reviewColumns';
+import { Platform } from '../services/storeAdapter';
+
+const router = Router();
+
+const deliveryStates: DeliveryState[] = ['pending', 'delivered', 'failed'];
+
+/**
+ * Validate the filters of a subscription request
+ * @param value Raw `filters` body parameter
+ * @returns Filters or an error message
+ */
+function parseWebhookFilters(value: unknown): { filters?: WebhookFilters; error?: string } {
+  if (value === undefined || value === null) return { filters: {} };
+  if (typeof value !== 'object' || Array.isArray(value)) return { error: 'filters must be an object' };
+
+  const raw = value as Record<string, unknown>;
+  const filters: WebhookFilters = {};
+
+  for (const key of ['minScore', 'maxScore'] as const) {
+    if (raw[key] === undefined) continue;
+
+    const score = Number(raw[key]);
+    if (!Number.isInteger(score) || score < 1 || score > 5) {
+      return { error: `${key} must be a whole number from 1 to 5` };
+    }
+    filters[key] = score;
+  }
+
+  if (filters.minScore !== undefined && filters.maxScore !== undefined && filters.minScore > filters.maxScore) {
+    return { error: 'minScore cannot be greater than maxScore' };
+  }
+
+  const countries = parseFieldList(raw.countries);
+  if (countries) {
+    const invalid = countries.filter(country => !/^[a-z]{2}$/i.test(country));
+    if (invalid.length > 0) return { error: `Countries must be two-letter codes: ${invalid.join(', ')}` };
+    filters.countries = countries.map(country => country.toLowerCase());
+  }
+
+  const platforms = parseFieldList(raw.platforms);
+  if (platforms) {
+    const resolved = platforms.map(resolvePlatform);
+    if (resolved.includes(null)) return { error: 'Platforms must be google-play or app-store' };
+    filters.platforms = resolved as Platform[];
+  }
+
+  const keywords = parseFieldList(raw.keywords);
+  if (keywords) filters.keywords = keywords;
+
+  const appIds = parseFieldList(raw.appIds);
+  if (appIds) filters.appIds = appIds;
+
+  return { filters };
+}
+
+/**
+ * POST /api/webhooks
+ * Subscribe a URL to review events; the response is the only one that shows the signing secret
+ * Body parameters:
+ * - url: http(s) URL receiving POST requests (required)
+ * - events: Event types - 'review.created', 'review.low_score', 'review.replied' (required)
+ * - filters: { minScore, maxScore, countries, keywords, platforms, appIds } (optional)
+ * - secret: Signing secret of at least 16 characters (default: generated)
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const { url, secret } = req.body;
+
+    let parsedUrl: URL | null = null;
+    try {
+      parsedUrl = typeof url === 'string' ? new URL(url) : null;
+    } catch {
+      parsedUrl = null;
+    }
+
+    if (!parsedUrl || !['http:', 'https:'].includes(parsedUrl.protocol)) {
+      return res.status(400).json({
+        error: 'Invalid URL',
+        message: 'url must be an absolute http or https URL'
+      });
+    }
+
+    const events = parseFieldList(req.body.events) || [];
+    const unknownEvents = events.filter(event => !REVIEW_EVENT_TYPES.includes(event as ReviewEventType));
+    if (events.length === 0 || unknownEvents.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid events',
+        message: `events must list one or more of: ${REVIEW_EVENT_TYPES.join(', ')}`
+      });
+    }
+
+    const { filters, error: filtersError } = parseWebhookFilters(req.body.filters);
+    if (!filters) {
+      return res.status(400).json({
+        error: 'Invalid filters',
+        message: filtersError
+      });
+    }
+
+    if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+      return res.status(400).json({
+        error: 'Invalid secret',
+        message: 'secret must be a string of at least 16 characters'
+      });
+    }
+
+    const subscription = webhookService.create({
+      url: parsedUrl.toString(),
+      events: events as ReviewEventType[],
+      filters,
+      secret
+    });
+
+    res.status(201).json({
+      success: true,
+      data: subscription
+    });
+
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({
+      error: 'Failed to create webhook',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * GET /api/webhooks
+ * List webhook subscriptions, newest first
+ */
+router.get('/', (req: Request, res: Response) => {
+  const subscriptions = webhookService.list();
+
+  res.json({
+    success: true,
+    data: subscriptions,
+    meta: {
+      totalSubscriptions: subscriptions.length,
+      fetchedAt: new Date().toISOString()
+    }
+  });
+});
+
+/**
+ * GET /api/webhooks/:id
+ * Get a webhook subscription
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const subscription = webhookService.get(req.params.id);
+
+  if (!subscription) {
+    return res.status(404).json({
+      error: 'Webhook not found',
+      message: 'The requested webhook does not exist'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: subscription
+  });
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Remove a webhook subscription and its queued deliveries
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  if (!webhookService.delete(req.params.id)) {
+    return res.status(404).json({
+      error: 'Webhook not found',
+      message: 'The requested webhook does not exist'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: { id: req.params.id, deleted: true }
+  });
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Delivery log of a subscription, newest first, with every attempt
+ * Query parameters:
+ * - state: 'pending', 'delivered' or 'failed' (default: all)
+ * - limit: Maximum number of deliveries to return (default: 100)
+ */
+router.get('/:id/deliveries', (req: Request, res: Response) => {
+  const { state, limit = '100' } = req.query;
+
+  if (state !== undefined && !deliveryStates.includes(state as DeliveryState)) {
+    return res.status(400).json({
+      error: 'Invalid state',
+      message: `State must be one of: ${deliveryStates.join(', ')}`
+    });
+  }
+
+  const deliveries = webhookService.deliveries(req.params.id, {
+    state: state as DeliveryState | undefined,
+    limit: Math.max(parseInt(limit as string) || 100, 1)
+  });
+
+  if (!deliveries) {
+    return res.status(404).json({
+      error: 'Webhook not found',
+      message: 'The requested webhook does not exist'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: deliveries,
+    meta: {
+      webhookId: req.params.id,
+      state: state || null,
+      actualCount: deliveries.length
+    }
+  });
+});
+
+export default router;
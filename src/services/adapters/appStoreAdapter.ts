@@ -0,0 +1,136 @@
+import { AppStoreService, AppStoreReviewData } from '../appStoreService';
+import {
+  StoreAdapter,
+  StoreSort,
+  StoreReviewQuery,
+  StoreReviewResult,
+  StoreReviewPage,
+  StoreLocaleOptions,
+  StoreSearchOptions,
+  UnifiedReview,
+  toIsoDate
+} from '../storeAdapter';
+import { AppConfig, appConfig } from '../../config';
+import { languageDetector } from '../language';
+
+export class AppStoreAdapter implements StoreAdapter {
+  readonly platform = 'app-store' as const;
+  readonly supportedSorts: StoreSort[] = ['newest', 'helpfulness'];
+
+  constructor(
+    private readonly appStoreService = new AppStoreService(),
+    private readonly config: AppConfig = appConfig
+  ) {}
+
+  /**
+   * Fetch reviews from the App Store and normalize them
+   * @param query Review query
+   * @returns Promise<StoreReviewResult>
+   */
+  async fetchReviews(query: StoreReviewQuery): Promise<StoreReviewResult> {
+    const {
+      appId,
+      country = this.config.defaults.country,
+      sort = 'newest',
+      num = 100,
+      bypassCache,
+      signal
+    } = query;
+
+    const appStoreSort = sort === 'helpfulness' ? 'mostHelpful' : 'mostRecent';
+
+    const result = num <= 50
+      ? await this.appStoreService.getReviews({ appId, country, sort: appStoreSort, bypassCache, signal })
+      : await this.appStoreService.getReviewsWithPagination({
+        appId,
+        country,
+        sort: appStoreSort,
+        totalReviews: num,
+        bypassCache,
+        signal
+      });
+
+    const reviews = result.reviews.slice(0, num);
+
+    return {
+      reviews: reviews.map(review => this.normalize(review, appId, country)),
+      hasMore: result.hasMore,
+      totalCount: reviews.length,
+      partial: result.partial
+    };
+  }
+
+  /**
+   * Fetch a single page of reviews; the cursor is the page number
+   * @param query Review query
+   * @param cursor Page number from the previous page
+   * @returns Promise<StoreReviewPage>
+   */
+  async fetchReviewPage(query: StoreReviewQuery, cursor?: string | null): Promise<StoreReviewPage> {
+    const {
+      appId,
+      country = this.config.defaults.country,
+      sort = 'newest',
+      bypassCache,
+      signal
+    } = query;
+
+    const page = cursor ? parseInt(cursor) || 1 : 1;
+    const result = await this.appStoreService.getReviews({
+      appId,
+      country,
+      page,
+      sort: sort === 'helpfulness' ? 'mostHelpful' : 'mostRecent',
+      bypassCache,
+      signal
+    });
+
+    return {
+      reviews: result.reviews.map(review => this.normalize(review, appId, country)),
+      nextCursor: result.hasMore ? String(page + 1) : null
+    };
+  }
+
+  async getAppInfo(appId: string, options: StoreLocaleOptions = {}) {
+    return this.appStoreService.getAppInfo(appId, options.country, options);
+  }
+
+  async searchApps(term: string, options: StoreSearchOptions = {}) {
+    return this.appStoreService.searchApps(term, {
+      num: options.num,
+      country: options.country,
+      bypassCache: options.bypassCache
+    });
+  }
+
+  extractAppIdFromUrl(url: string): string | null {
+    return this.appStoreService.extractAppIdFromUrl(url);
+  }
+
+  /**
+   * Map an App Store review to the unified model
+   * @param review App Store review
+   * @param appId App ID the review belongs to
+   * @param country Storefront the review was fetched from
+   * @returns Unified review
+   */
+  normalize(review: AppStoreReviewData, appId: string, country: string): UnifiedReview {
+    return {
+      platform: this.platform,
+      appId,
+      country,
+      id: review.id,
+      userName: review.userName,
+      title: review.title || null,
+      text: review.text,
+      score: review.score,
+      version: review.version || null,
+      date: toIsoDate(review.date),
+      reply: null,
+      helpfulCount: null,
+      url: review.url || null,
+      detectedLanguage: languageDetector.languageOf(review),
+      raw: review
+    };
+  }
+}
@@ -0,0 +1,136 @@
+import { ReviewService, ReviewData } from '../reviewService';
+import {
+  StoreAdapter,
+  StoreSort,
+  StoreReviewQuery,
+  StoreReviewResult,
+  StoreReviewPage,
+  StoreLocaleOptions,
+  StoreSearchOptions,
+  UnifiedReview,
+  toIsoDate
+} from '../storeAdapter';
+import { AppConfig, appConfig } from '../../config';
+import { languageDetector } from '../language';
+
+export class GooglePlayAdapter implements StoreAdapter {
+  readonly platform = 'google-play' as const;
+  readonly supportedSorts: StoreSort[] = ['newest', 'rating', 'helpfulness'];
+
+  constructor(
+    private readonly reviewService = new ReviewService(),
+    private readonly config: AppConfig = appConfig
+  ) {}
+
+  /**
+   * Fetch reviews from Google Play and normalize them
+   * @param query Review query
+   * @returns Promise<StoreReviewResult>
+   */
+  async fetchReviews(query: StoreReviewQuery): Promise<StoreReviewResult> {
+    const {
+      appId,
+      lang = this.config.defaults.lang,
+      country = this.config.defaults.country,
+      sort = 'newest',
+      num = 100,
+      bypassCache,
+      signal
+    } = query;
+
+    const result = await this.reviewService.getReviews({
+      appId,
+      lang,
+      country,
+      sort,
+      num,
+      paginate: true,
+      bypassCache,
+      signal
+    });
+
+    return {
+      reviews: result.reviews.map(review => this.normalize(review, appId, country)),
+      hasMore: !!result.nextPaginationToken,
+      totalCount: result.reviews.length,
+      partial: result.partial
+    };
+  }
+
+  /**
+   * Fetch a single page of reviews, resuming from a pagination token
+   * @param query Review query
+   * @param cursor Pagination token from the previous page
+   * @returns Promise<StoreReviewPage>
+   */
+  async fetchReviewPage(query: StoreReviewQuery, cursor?: string | null): Promise<StoreReviewPage> {
+    const {
+      appId,
+      lang = this.config.defaults.lang,
+      country = this.config.defaults.country,
+      sort = 'newest',
+      num = this.config.limits.maxReviewsPerRequest,
+      bypassCache,
+      signal
+    } = query;
+
+    const result = await this.reviewService.fetchSingleBatch({
+      appId,
+      lang,
+      country,
+      sort,
+      num,
+      paginate: true,
+      nextPaginationToken: cursor || undefined,
+      bypassCache,
+      signal
+    });
+
+    return {
+      reviews: result.reviews.map(review => this.normalize(review, appId, country)),
+      nextCursor: result.nextPaginationToken || null
+    };
+  }
+
+  async getAppInfo(appId: string, options: StoreLocaleOptions = {}) {
+    return this.reviewService.getAppInfo(appId, options.lang, options.country, options);
+  }
+
+  async searchApps(term: string, options: StoreSearchOptions = {}) {
+    return this.reviewService.searchApps(term, options);
+  }
+
+  extractAppIdFromUrl(url: string): string | null {
+    const match = url.match(/[?&]id=([^&]+)/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Map a Google Play review to the unified model
+   * @param review Google Play review
+   * @param appId App ID the review belongs to
+   * @param country Storefront the review was fetched from
+   * @returns Unified review
+   */
+  normalize(review: ReviewData, appId: string, country: string): UnifiedReview {
+    return {
+      platform: this.platform,
+      appId,
+      country,
+      id: review.id,
+      userName: review.userName,
+      title: null,
+      text: review.text,
+      score: review.score,
+      version: review.version || null,
+      date: toIsoDate(review.date),
+      reply: review.replyText
+        ? { text: review.replyText, date: toIsoDate(review.replyDate) }
+        : null,
+      helpfulCount: typeof review.thumbsUp === 'number' ? review.thumbsUp : null,
+      url: review.url || null,
+      detectedLanguage: languageDetector.languageOf(review),
+      raw: review
+    };
+  }
+}
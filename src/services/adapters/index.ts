@@ -0,0 +1,44 @@
+import { Platform, StoreAdapter } from '../storeAdapter';
+import { GooglePlayAdapter } from './googlePlayAdapter';
+import { AppStoreAdapter } from './appStoreAdapter';
+
+const adapters: Record<Platform, StoreAdapter> = {
+  'google-play': new GooglePlayAdapter(),
+  'app-store': new AppStoreAdapter()
+};
+
+// Accepted spellings for the :platform route parameter
+const platformAliases: Record<string, Platform> = {
+  'google-play': 'google-play',
+  'googleplay': 'google-play',
+  'gplay': 'google-play',
+  'android': 'google-play',
+  'app-store': 'app-store',
+  'appstore': 'app-store',
+  'ios': 'app-store'
+};
+
+/**
+ * Resolve a platform name or alias to its canonical identifier
+ * @param value Platform name from user input
+ * @returns Canonical platform or null when unknown
+ */
+export function resolvePlatform(value: string | undefined): Platform | null {
+  if (!value) return null;
+  return platformAliases[value.toLowerCase()] || null;
+}
+
+/**
+ * Get the adapter registered for a platform
+ * @param platform Canonical platform identifier
+ * @returns Store adapter
+ */
+export function getStoreAdapter(platform: Platform): StoreAdapter {
+  return adapters[platform];
+}
+
+export function listPlatforms(): Platform[] {
+  return Object.keys(adapters) as Platform[];
+}
+
+export { GooglePlayAdapter, AppStoreAdapter };
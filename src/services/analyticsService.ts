@@ -0,0 +1,233 @@
+export type BucketInterval = 'day' | 'week';
+export const BUCKET_INTERVALS: BucketInterval[] = ['day', 'week'];
+
+export interface AnalyticsInput {
+  score: number;
+  date: string | null;
+  version: string | null;
+  /** Google Play thumbs-up or App Store helpful votes */
+  helpfulCount: number | null;
+  detectedLanguage: string | null;
+}
+
+export interface RatingStats {
+  count: number;
+  /** Mean star score, null when there are no reviews */
+  meanScore: number | null;
+  /** Number of reviews per star score */
+  distribution: Record<'1' | '2' | '3' | '4' | '5', number>;
+  /** Share of 1-star reviews, null when there are no reviews */
+  oneStarShare: number | null;
+  /** Mean score with each review weighted by 1 + its helpful votes */
+  helpfulnessWeightedMean: number | null;
+}
+
+export interface TimeBucket extends RatingStats {
+  /** First day of the bucket (YYYY-MM-DD, UTC; weeks start on Monday) */
+  period: string;
+}
+
+export interface VersionStats extends RatingStats {
+  /** App version, null for reviews without one */
+  version: string | null;
+  firstReviewAt: string | null;
+  lastReviewAt: string | null;
+}
+
+export interface LanguageStats extends RatingStats {
+  /** Detected language, null for reviews whose language could not be detected */
+  language: string | null;
+}
+
+export interface RatingAnalytics {
+  overall: RatingStats;
+  interval: BucketInterval;
+  /** Consecutive buckets from the oldest to the newest review, empty ones included */
+  series: TimeBucket[];
+  /** Versions from oldest to newest */
+  versions: VersionStats[];
+  /** Languages from the most to the least reviewed */
+  languages: LanguageStats[];
+  /** Reviews left out of the series because they have no date */
+  undatedCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Compare app version strings segment by segment, numerically where both segments are numbers
+ * @returns Negative when a is older than b, positive when newer, 0 when equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(/[.\-_+ ]/);
+  const right = b.split(/[.\-_+ ]/);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i] ?? '0';
+    const y = right[i] ?? '0';
+    const difference = /^\d+$/.test(x) && /^\d+$/.test(y)
+      ? parseInt(x, 10) - parseInt(y, 10)
+      : x.localeCompare(y);
+
+    if (difference !== 0) return difference;
+  }
+
+  return 0;
+}
+
+/**
+ * Start of the UTC day, or of the week starting on Monday, containing a timestamp
+ */
+export function bucketStart(timestamp: number, interval: BucketInterval): number {
+  const day = Math.floor(timestamp / DAY_MS) * DAY_MS;
+  if (interval === 'day') return day;
+
+  const weekday = (new Date(day).getUTCDay() + 6) % 7;
+  return day - weekday * DAY_MS;
+}
+
+/**
+ * Group reviews into consecutive day or week buckets, from the oldest to the newest review,
+ * empty buckets included. Reviews without a valid date are left out.
+ * @param reviews Reviews to group
+ * @param interval Bucket size
+ * @param summarize Statistics of the reviews of one bucket
+ * @returns One entry per bucket, with its first day as `period`
+ */
+export function buildSeries<T extends { date: string | null }, S extends object>(
+  reviews: T[],
+  interval: BucketInterval,
+  summarize: (reviews: T[]) => S
+): (S & { period: string })[] {
+  const groups = new Map<number, T[]>();
+  for (const review of reviews) {
+    const time = review.date ? Date.parse(review.date) : NaN;
+    if (isNaN(time)) continue;
+
+    const start = bucketStart(time, interval);
+    const group = groups.get(start);
+    if (group) group.push(review);
+    else groups.set(start, [review]);
+  }
+
+  if (groups.size === 0) return [];
+
+  const starts = [...groups.keys()];
+  const last = Math.max(...starts);
+  const step = interval === 'week' ? 7 * DAY_MS : DAY_MS;
+  const series: (S & { period: string })[] = [];
+
+  for (let start = Math.min(...starts); start <= last; start += step) {
+    series.push({
+      period: new Date(start).toISOString().slice(0, 10),
+      ...summarize(groups.get(start) || [])
+    });
+  }
+
+  return series;
+}
+
+/**
+ * Round a ratio or mean for output, to three decimals unless told otherwise
+ */
+export function round(value: number, digits = 3): number {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * Aggregates review scores over time and per app version
+ */
+export class AnalyticsService {
+  /**
+   * Build rating statistics for charting
+   * @param reviews Reviews to aggregate
+   * @param interval Bucket size of the time series
+   * @returns Overall, per-period and per-version statistics
+   */
+  analyze(reviews: AnalyticsInput[], interval: BucketInterval = 'day'): RatingAnalytics {
+    const dated = reviews.filter(review => review.date && !isNaN(Date.parse(review.date)));
+
+    return {
+      overall: this.stats(reviews),
+      interval,
+      series: buildSeries(dated, interval, group => this.stats(group)),
+      versions: this.buildVersions(reviews),
+      languages: this.buildLanguages(reviews),
+      undatedCount: reviews.length - dated.length
+    };
+  }
+
+  /**
+   * Count, mean, distribution, 1-star share and helpfulness-weighted mean of a set of reviews
+   */
+  stats(reviews: AnalyticsInput[]): RatingStats {
+    const distribution = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
+    let total = 0;
+    let weightedTotal = 0;
+    let weights = 0;
+
+    for (const review of reviews) {
+      const key = String(review.score) as keyof typeof distribution;
+      if (key in distribution) distribution[key]++;
+
+      const weight = 1 + Math.max(review.helpfulCount || 0, 0);
+      total += review.score;
+      weightedTotal += review.score * weight;
+      weights += weight;
+    }
+
+    const count = reviews.length;
+
+    return {
+      count,
+      meanScore: count ? round(total / count) : null,
+      distribution,
+      oneStarShare: count ? round(distribution['1'] / count) : null,
+      helpfulnessWeightedMean: count ? round(weightedTotal / weights) : null
+    };
+  }
+
+  private buildVersions(reviews: AnalyticsInput[]): VersionStats[] {
+    const groups = new Map<string | null, AnalyticsInput[]>();
+    for (const review of reviews) {
+      const version = review.version || null;
+      const group = groups.get(version);
+      if (group) group.push(review);
+      else groups.set(version, [review]);
+    }
+
+    return [...groups.entries()]
+      .map(([version, group]) => {
+        const dates = group.map(review => review.date).filter((date): date is string => !!date).sort();
+        return {
+          version,
+          firstReviewAt: dates[0] || null,
+          lastReviewAt: dates[dates.length - 1] || null,
+          ...this.stats(group)
+        };
+      })
+      // Reviews without a version go last
+      .sort((a, b) => {
+        if (a.version === null || b.version === null) return a.version === null ? 1 : -1;
+        return compareVersions(a.version, b.version);
+      });
+  }
+
+  private buildLanguages(reviews: AnalyticsInput[]): LanguageStats[] {
+    const groups = new Map<string | null, AnalyticsInput[]>();
+    for (const review of reviews) {
+      const language = review.detectedLanguage || null;
+      const group = groups.get(language);
+      if (group) group.push(review);
+      else groups.set(language, [review]);
+    }
+
+    return [...groups.entries()]
+      .map(([language, group]) => ({ language, ...this.stats(group) }))
+      // Reviews without a detected language go last
+      .sort((a, b) => {
+        if (a.language === null || b.language === null) return a.language === b.language ? 0 : a.language === null ? 1 : -1;
+        return b.count - a.count;
+      });
+  }
+}
@@ -1,4 +1,9 @@
 import appStore from 'app-store-scraper';
+import { UpstreamCache, CacheReadOptions, upstreamCache } from './cache';
+import { AppConfig, appConfig } from '../config';
+import { ResiliencePolicy, FailedPage, PartialResult, CircuitOpenError, storePolicies, sleep } from './resilience';
+import { ReviewFilter, FilterStats, FilterableReview, FetchStopReason, applyReviewFilter, reachesCutoff } from './reviewFilter';
+import { languageDetector } from './language';
 
 export interface AppStoreReviewData {
   id: string;
@@ -10,6 +15,10 @@ export interface AppStoreReviewData {
   text: string;
   url: string;
   date: string;
+  /** Storefront the review was fetched from; set when several countries are combined */
+  country?: string;
+  /** Language of the title and text, null when it could not be detected */
+  detectedLanguage: string | null;
 }
 
 export interface AppStoreReviewOptions {
@@ -17,15 +26,42 @@ export interface AppStoreReviewOptions {
   country?: string;
   page?: number;
   sort?: 'mostRecent' | 'mostHelpful';
+  signal?: AbortSignal;
+  onProgress?: (fetchedCount: number) => void;
+  bypassCache?: boolean;
+  /** Called when a page fails after all retries; the stream then skips it instead of throwing */
+  onPageFailed?: (failure: FailedPage) => void;
+  /**
+   * Applied to every fetched page; counts such as `totalReviews` are of reviews scanned, not matched.
+   * With the 'mostRecent' sort, fetching stops after the page that passes `filter.since`.
+   * App Store reviews carry no replies or helpful votes, so `hasReply` and `minThumbsUp` never match.
+   */
+  filter?: ReviewFilter;
+  /** Called once a multi-page stream has finished on its own */
+  onStop?: (reason: FetchStopReason) => void;
 }
 
 export interface AppStoreReviewResponse {
   reviews: AppStoreReviewData[];
   hasMore: boolean;
   totalCount: number;
+  /** Present when some pages of a multi-page fetch could not be fetched */
+  partial?: PartialResult;
+  /** Present when a filter was applied */
+  filterStats?: FilterStats;
+  stopReason?: FetchStopReason;
 }
 
+/** The customer reviews feed serves at most this many pages */
+const MAX_PAGES = 10;
+
 export class AppStoreService {
+  constructor(
+    private readonly cache: UpstreamCache = upstreamCache,
+    private readonly config: AppConfig = appConfig,
+    private readonly resilience: ResiliencePolicy = storePolicies['app-store']
+  ) {}
+
   /**
    * Get reviews for a specific app from iOS App Store
    * @param options Review fetching options
@@ -35,143 +71,260 @@ export class AppStoreService {
     try {
       const {
         appId,
-        country = 'tr',
+        country = this.config.defaults.country,
         page = 1,
-        sort = 'mostRecent'
+        sort = 'mostRecent',
+        signal,
+        bypassCache,
+        filter
       } = options;
 
-      const result = await appStore.reviews({
-        id: appId,
-        country,
-        page,
-        sort: this.mapSortOption(sort)
-      });
+      const result: AppStoreReviewResponse = await this.cache.wrap('reviews', ['app-store', appId, country, page, sort], async () => {
+        const result = await this.resilience.run(() => appStore.reviews({
+          id: appId,
+          country,
+          page,
+          sort: this.mapSortOption(sort)
+        }), signal);
+
+        return {
+          reviews: result.map(this.mapReviewData),
+          hasMore: result.length === 50, // App Store returns max 50 reviews per page
+          totalCount: result.length
+        };
+      }, { bypassCache });
 
-      return {
-        reviews: result.map(this.mapReviewData),
-        hasMore: result.length === 50, // App Store returns max 50 reviews per page
-        totalCount: result.length
-      };
+      const stopReason: FetchStopReason = sort === 'mostRecent' && reachesCutoff(result.reviews.map(review => review.date), filter)
+        ? 'cutoff'
+        : result.hasMore && page < MAX_PAGES ? 'limit' : 'exhausted';
+
+      return filter ? { ...this.applyFilter(result, filter), stopReason } : { ...result, stopReason };
 
     } catch (error) {
       console.error('Error fetching App Store reviews:', error);
+      if (error instanceof CircuitOpenError) throw error;
       throw new Error(`Failed to fetch App Store reviews: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get multiple pages of reviews for large datasets
+   * Get multiple pages of reviews for large datasets.
+   * Pages that keep failing are skipped and reported in `partial`.
+   * `totalReviews` may be Infinity to page until the `filter.since` cutoff or the last page.
    * @param options Review fetching options with total count
    * @returns Promise<AppStoreReviewResponse>
    */
   async getReviewsWithPagination(options: AppStoreReviewOptions & { totalReviews: number }): Promise<AppStoreReviewResponse> {
+    const { totalReviews, filter } = options;
+    const allReviews: AppStoreReviewData[] = [];
+    const failedPages: FailedPage[] = [];
+    let pagesFetched = 0;
+    let lastGoodPage = 0;
+    let scannedCount = 0;
+    let stopReason: FetchStopReason | undefined;
+
+    for await (const pageReviews of this.streamReviews({
+      ...options,
+      onProgress: fetchedCount => {
+        scannedCount = fetchedCount;
+        options.onProgress?.(fetchedCount);
+      },
+      onPageFailed: failure => failedPages.push(failure),
+      onStop: reason => { stopReason = reason; }
+    })) {
+      allReviews.push(...pageReviews);
+      // Every page either yields or fails, in order
+      lastGoodPage = ++pagesFetched + failedPages.length;
+    }
+
+    console.log(`Successfully fetched ${allReviews.length} App Store reviews`);
+
+    return {
+      reviews: allReviews,
+      hasMore: scannedCount === totalReviews,
+      totalCount: allReviews.length,
+      stopReason,
+      ...(filter && { filterStats: { scannedCount, matchedCount: allReviews.length } }),
+      ...(failedPages.length > 0 && {
+        partial: { failedPages, lastGoodToken: lastGoodPage ? String(lastGoodPage) : null }
+      })
+    };
+  }
+
+  /**
+   * Keep the reviews of a response that pass a filter; `hasMore` still describes the scanned page
+   */
+  private applyFilter(result: AppStoreReviewResponse, filter: ReviewFilter): AppStoreReviewResponse {
+    const filtered = applyReviewFilter(result.reviews, filter, this.toFilterable);
+    return { ...result, ...filtered, totalCount: filtered.reviews.length };
+  }
+
+  /**
+   * Fields of a review that filters look at; the title counts as part of the text
+   */
+  private toFilterable(review: AppStoreReviewData): FilterableReview {
+    return {
+      score: review.score,
+      date: review.date || null,
+      version: review.version || null,
+      text: [review.title, review.text].filter(Boolean).join('\n'),
+      hasReply: null,
+      thumbsUp: null,
+      language: languageDetector.languageOf(review)
+    };
+  }
+
+  /**
+   * Yield reviews page by page as they are fetched, without keeping them in memory.
+   * Pages are filtered when `filter` is set.
+   * @param options Review fetching options with total count
+   * @returns Async generator of review pages
+   */
+  async *streamReviews(options: AppStoreReviewOptions & { totalReviews: number }): AsyncGenerator<AppStoreReviewData[]> {
     const {
       appId,
-      country = 'tr',
+      country = this.config.defaults.country,
       sort = 'mostRecent',
-      totalReviews
+      totalReviews,
+      signal,
+      onProgress,
+      bypassCache,
+      onPageFailed,
+      filter,
+      onStop
     } = options;
 
-    const allReviews: AppStoreReviewData[] = [];
+    let fetchedCount = 0;
+    let stopReason: FetchStopReason = 'limit';
     const reviewsPerPage = 50; // App Store limit
-    const totalPages = Math.ceil(totalReviews / reviewsPerPage);
+    const totalPages = Math.min(Math.ceil(totalReviews / reviewsPerPage), MAX_PAGES);
     
-    console.log(`Fetching ${totalReviews} App Store reviews in ${totalPages} pages...`);
+    console.log(`Fetching ${Number.isFinite(totalReviews) ? totalReviews : 'all'} App Store reviews in up to ${totalPages} pages...`);
 
     for (let page = 1; page <= totalPages; page++) {
+      signal?.throwIfAborted();
+
       console.log(`Fetching App Store page ${page}/${totalPages}...`);
 
+      let pageResult: AppStoreReviewResponse;
       try {
-        const pageResult = await this.getReviews({
+        pageResult = await this.getReviews({
           appId,
           country,
           page,
-          sort
+          sort,
+          signal,
+          bypassCache
         });
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (!onPageFailed) throw error;
 
-        if (pageResult.reviews.length === 0) {
-          console.log('No more App Store reviews available');
+        console.error(`App Store page ${page} failed after retries:`, error);
+        onPageFailed({
+          page,
+          cursor: String(page),
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+
+        // Pages are independent, so later ones can still be fetched unless the store is down
+        if (error instanceof CircuitOpenError) {
+          stopReason = 'failed';
           break;
         }
+        continue;
+      }
 
-        allReviews.push(...pageResult.reviews);
+      if (pageResult.reviews.length === 0) {
+        console.log('No more App Store reviews available');
+        stopReason = 'exhausted';
+        break;
+      }
 
-        // Stop if we've reached the desired number
-        if (allReviews.length >= totalReviews) {
-          allReviews.splice(totalReviews); // Trim to exact count
-          break;
-        }
+      // Trim the last page to the exact requested count
+      const pageReviews = pageResult.reviews.slice(0, totalReviews - fetchedCount);
+      fetchedCount += pageReviews.length;
+      onProgress?.(fetchedCount);
 
-        // If we didn't get a full page, there are no more reviews
-        if (pageResult.reviews.length < reviewsPerPage) {
-          console.log('Reached end of available App Store reviews');
-          break;
-        }
+      const passedCutoff = sort === 'mostRecent' && reachesCutoff(pageReviews.map(review => review.date), filter);
 
-        // Add delay between requests to be respectful
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      yield filter ? applyReviewFilter(pageReviews, filter, this.toFilterable).reviews : pageReviews;
 
-      } catch (error) {
-        console.error(`Error fetching App Store page ${page}:`, error);
-        // Continue with next page instead of failing completely
-        continue;
+      // Most recent first, so every later page is older still
+      if (passedCutoff) {
+        console.log(`Reached App Store reviews older than ${filter?.since}`);
+        stopReason = 'cutoff';
+        break;
       }
-    }
 
-    console.log(`Successfully fetched ${allReviews.length} App Store reviews`);
+      // Stop if we've reached the desired number
+      if (fetchedCount >= totalReviews) {
+        break;
+      }
 
-    return {
-      reviews: allReviews,
-      hasMore: allReviews.length === totalReviews,
-      totalCount: allReviews.length
-    };
+      // If we didn't get a full page, or the feed's last page, there are no more reviews
+      if (pageResult.reviews.length < reviewsPerPage || page === MAX_PAGES) {
+        console.log('Reached end of available App Store reviews');
+        stopReason = 'exhausted';
+        break;
+      }
+
+      // Add delay between requests to be respectful
+      await sleep(this.config.delays.appStorePageMs, signal);
+    }
+
+    onStop?.(stopReason);
   }
 
   /**
    * Get app information from iOS App Store
    * @param appId App Store app ID
    * @param country Country code
+   * @param options Cache options
    * @returns Promise with app information
    */
-  async getAppInfo(appId: string, country = 'tr') {
+  async getAppInfo(appId: string, country = this.config.defaults.country, options: CacheReadOptions = {}) {
     try {
-      const appInfo = await appStore.app({
-        id: appId,
-        country
-      });
-
-      return {
-        appId: appInfo.id,
-        bundleId: appInfo.bundleId,
-        title: appInfo.title,
-        description: appInfo.description,
-        summary: appInfo.summary,
-        url: appInfo.url,
-        icon: appInfo.icon,
-        screenshots: appInfo.screenshots,
-        developer: appInfo.developer,
-        developerId: appInfo.developerId,
-        developerUrl: appInfo.developerUrl,
-        developerWebsite: appInfo.developerWebsite,
-        genre: appInfo.genre,
-        genreId: appInfo.genreId,
-        price: appInfo.price,
-        currency: appInfo.currency,
-        free: appInfo.free,
-        version: appInfo.version,
-        released: appInfo.released,
-        updated: appInfo.updated,
-        releaseNotes: appInfo.releaseNotes,
-        currentVersionReleaseDate: appInfo.currentVersionReleaseDate,
-        score: appInfo.score,
-        reviews: appInfo.reviews,
-        ratings: appInfo.ratings,
-        histogram: appInfo.histogram,
-        size: appInfo.size,
-        contentRating: appInfo.contentRating,
-        languages: appInfo.languages,
-        requiredOsVersion: appInfo.requiredOsVersion
-      };
+      return await this.cache.wrap('appInfo', ['app-store', appId, country], async () => {
+        const appInfo = await this.resilience.run(() => appStore.app({
+          id: appId,
+          country,
+          ratings: true
+        }));
+
+        return {
+          appId: appInfo.id,
+          bundleId: appInfo.bundleId,
+          title: appInfo.title,
+          description: appInfo.description,
+          summary: appInfo.summary,
+          url: appInfo.url,
+          icon: appInfo.icon,
+          screenshots: appInfo.screenshots,
+          developer: appInfo.developer,
+          developerId: appInfo.developerId,
+          developerUrl: appInfo.developerUrl,
+          developerWebsite: appInfo.developerWebsite,
+          genre: appInfo.genre,
+          genreId: appInfo.genreId,
+          price: appInfo.price,
+          currency: appInfo.currency,
+          free: appInfo.free,
+          version: appInfo.version,
+          released: appInfo.released,
+          updated: appInfo.updated,
+          releaseNotes: appInfo.releaseNotes,
+          currentVersionReleaseDate: appInfo.currentVersionReleaseDate,
+          score: appInfo.score,
+          reviews: appInfo.reviews,
+          ratings: appInfo.ratings,
+          histogram: appInfo.histogram,
+          size: appInfo.size,
+          contentRating: appInfo.contentRating,
+          languages: appInfo.languages,
+          requiredOsVersion: appInfo.requiredOsVersion
+        };
+      }, options);
 
     } catch (error) {
       console.error('Error fetching App Store app info:', error);
@@ -185,36 +338,39 @@ export class AppStoreService {
    * @param options Search options
    * @returns Promise with search results
    */
-  async searchApps(term: string, options?: { num?: number; country?: string; media?: string }) {
+  async searchApps(term: string, options?: { num?: number; country?: string; media?: string } & CacheReadOptions) {
     try {
       const {
         num = 20,
-        country = 'tr',
-        media = 'software'
+        country = this.config.defaults.country,
+        media = 'software',
+        bypassCache
       } = options || {};
 
-      const results = await appStore.search({
-        term,
-        num,
-        country,
-        media
-      });
-
-      return results.map((app: any) => ({
-        appId: app.id,
-        bundleId: app.bundleId,
-        title: app.title,
-        developer: app.developer,
-        developerId: app.developerId,
-        icon: app.icon,
-        score: app.score,
-        scoreText: app.scoreText,
-        price: app.price,
-        currency: app.currency,
-        free: app.free,
-        genre: app.genre,
-        genreId: app.genreId
-      }));
+      return await this.cache.wrap('search', ['app-store', term, num, country, media], async () => {
+        const results = await this.resilience.run(() => appStore.search({
+          term,
+          num,
+          country,
+          media
+        }));
+
+        return results.map((app: any) => ({
+          appId: app.id,
+          bundleId: app.bundleId,
+          title: app.title,
+          developer: app.developer,
+          developerId: app.developerId,
+          icon: app.icon,
+          score: app.score,
+          scoreText: app.scoreText,
+          price: app.price,
+          currency: app.currency,
+          free: app.free,
+          genre: app.genre,
+          genreId: app.genreId
+        }));
+      }, { bypassCache });
 
     } catch (error) {
       console.error('Error searching App Store apps:', error);
@@ -285,7 +441,8 @@ export class AppStoreService {
       title: review.title,
       text: review.text,
       url: review.url,
-      date: review.date
+      date: review.date,
+      detectedLanguage: languageDetector.detectReview(review)
     };
   }
 }
@@ -0,0 +1,181 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { AppConfig, appConfig } from '../config';
+
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache that evicts the least recently used entry once full
+ */
+export class MemoryLRUCache implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache that keeps one JSON file per key, so entries survive restarts
+ */
+export class FileCache implements CacheStore {
+  constructor(private readonly cacheDir = 'data/cache') {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const filePath = this.getFilePath(key);
+
+    try {
+      const entry: CacheEntry<T> = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+
+      if (entry.expiresAt <= Date.now()) {
+        await fs.promises.rm(filePath, { force: true });
+        return undefined;
+      }
+
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const filePath = this.getFilePath(key);
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(`${filePath}.tmp`, JSON.stringify(entry), 'utf8');
+    await fs.promises.rename(`${filePath}.tmp`, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.getFilePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.promises.rm(path.resolve(this.cacheDir), { recursive: true, force: true });
+  }
+
+  private getFilePath(key: string): string {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return path.resolve(this.cacheDir, `${hash}.json`);
+  }
+}
+
+export type CacheOperation = 'appInfo' | 'search' | 'reviews';
+
+export type CacheTTLs = Record<CacheOperation, number>;
+
+export const DEFAULT_CACHE_TTLS: CacheTTLs = {
+  appInfo: 60 * 60 * 1000,
+  search: 15 * 60 * 1000,
+  reviews: 5 * 60 * 1000
+};
+
+export interface CacheReadOptions {
+  /** Skip the cached value and refresh it from upstream */
+  bypassCache?: boolean;
+}
+
+/**
+ * Read-through cache in front of upstream store calls with per-operation TTLs
+ */
+export class UpstreamCache {
+  constructor(
+    private readonly store: CacheStore | null,
+    private readonly ttls: CacheTTLs = DEFAULT_CACHE_TTLS
+  ) {}
+
+  /**
+   * Return the cached value for a key, or load and cache it
+   * @param operation Operation kind, selects the TTL
+   * @param keyParts Values identifying the upstream request
+   * @param load Upstream call
+   * @param options Cache read options
+   * @returns Cached or freshly loaded value
+   */
+  async wrap<T>(operation: CacheOperation, keyParts: unknown[], load: () => Promise<T>, options: CacheReadOptions = {}): Promise<T> {
+    if (!this.store || this.ttls[operation] <= 0) {
+      return load();
+    }
+
+    const key = `${operation}:${JSON.stringify(keyParts)}`;
+
+    if (!options.bypassCache) {
+      const cached = await this.store.get<T>(key);
+      if (cached !== undefined) return cached;
+    }
+
+    const value = await load();
+
+    try {
+      await this.store.set(key, value, this.ttls[operation]);
+    } catch (error) {
+      console.error('Error writing upstream cache:', error);
+    }
+
+    return value;
+  }
+
+  clear(): Promise<void> {
+    return this.store ? this.store.clear() : Promise.resolve();
+  }
+}
+
+/**
+ * Build the cache selected by the configured driver (memory, file or none)
+ */
+export function createUpstreamCache(settings: AppConfig['cache'] = appConfig.cache): UpstreamCache {
+  switch (settings.driver) {
+    case 'none':
+      return new UpstreamCache(null, settings.ttls);
+    case 'file':
+      return new UpstreamCache(new FileCache(settings.dir), settings.ttls);
+    case 'memory':
+    default:
+      return new UpstreamCache(new MemoryLRUCache(settings.maxEntries), settings.ttls);
+  }
+}
+
+export const upstreamCache = createUpstreamCache();
@@ -0,0 +1,231 @@
+import { getStoreAdapter } from './adapters';
+import { AnalyticsService, round } from './analyticsService';
+import { Platform, UnifiedReview } from './storeAdapter';
+import { PartialResult } from './resilience';
+import { TopicExtractor, topicExtractor } from './topics';
+import { AppConfig, appConfig } from '../config';
+
+export interface CompareTarget {
+  platform: Platform;
+  appId: string;
+}
+
+export interface CompareOptions {
+  /** Recent reviews sampled per app */
+  num: number;
+  /** Length of the recent window in days */
+  windowDays: number;
+  lang: string;
+  country: string;
+  bypassCache?: boolean;
+}
+
+export type Histogram = Record<'1' | '2' | '3' | '4' | '5', number>;
+
+export interface RecentWindow {
+  days: number;
+  /** Sampled reviews written within the window */
+  reviewCount: number;
+  meanScore: number | null;
+  /** False when the sample ended inside the window, so older reviews of the window were not counted */
+  complete: boolean;
+}
+
+export interface ComplaintKeyword {
+  term: string;
+  /** Sampled 1-2 star reviews mentioning the keyword */
+  count: number;
+  /** Share of the sampled 1-2 star reviews mentioning the keyword */
+  share: number;
+}
+
+export interface AppComparison extends CompareTarget {
+  title: string | null;
+  /** Store rating from 1 to 5, over all ratings */
+  score: number | null;
+  ratingsCount: number | null;
+  /** Number of ratings per star */
+  histogram: Histogram | null;
+  /** Share of ratings per star, so apps of different size compare directly */
+  histogramShare: Histogram | null;
+  recentWindow: RecentWindow | null;
+  /** Reviews written per day, over the recent window or the span of the sample when it ended inside the window */
+  reviewVelocity: number | null;
+  /** Share of sampled reviews the developer replied to, null when the store does not report replies */
+  replyRate: number | null;
+  topComplaints: ComplaintKeyword[];
+  /** Reviews sampled for the review-based metrics */
+  sampleSize: number;
+  /** Present when some review pages could not be fetched */
+  partial: PartialResult | null;
+  /** Set when the app could not be fetched */
+  error: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STARS = ['1', '2', '3', '4', '5'] as const;
+const COMPLAINT_LIMIT = 5;
+
+/**
+ * Builds side-by-side metrics of several apps from their store listing and a sample
+ * of recent reviews, in the same units for Google Play and the App Store
+ */
+export class CompareService {
+  static readonly MAX_APPS = 10;
+  static readonly DEFAULT_NUM = 200;
+  /** Upper bound of the reviews sampled per app */
+  static readonly MAX_NUM = 500;
+  static readonly DEFAULT_WINDOW_DAYS = 30;
+
+  constructor(
+    private readonly analytics = new AnalyticsService(),
+    private readonly topics: TopicExtractor = topicExtractor,
+    private readonly config: AppConfig = appConfig
+  ) {}
+
+  /**
+   * Compare apps, in the order given, fetching at most `countryConcurrency` apps at once
+   * @param targets Apps to compare
+   * @param options Sample size, window and locale
+   * @param signal Cancels fetching; a cancelled fetch throws instead of being reported per app
+   * @returns One comparison per app; apps that could not be fetched carry an error
+   */
+  async compare(targets: CompareTarget[], options: CompareOptions, signal?: AbortSignal): Promise<AppComparison[]> {
+    const settled = await this.settleAll(targets, target => this.compareApp(target, options, signal));
+
+    const comparisons = settled.map((result, index) => {
+      if (result.status === 'fulfilled') return result.value;
+
+      signal?.throwIfAborted();
+      const target = targets[index];
+      console.error(`App ${target.platform}/${target.appId} could not be compared:`, result.reason);
+      return this.failed(target, result.reason instanceof Error ? result.reason.message : 'Unknown error');
+    });
+
+    if (comparisons.every(comparison => comparison.error)) {
+      throw new Error(`No app could be fetched: ${comparisons.map(comparison => `${comparison.appId}: ${comparison.error}`).join('; ')}`);
+    }
+
+    return comparisons;
+  }
+
+  /**
+   * Run a task per target with a bounded number running at once
+   * @returns Settled results in the order of the targets
+   */
+  private async settleAll<T>(targets: CompareTarget[], task: (target: CompareTarget) => Promise<T>): Promise<PromiseSettledResult<T>[]> {
+    const results: PromiseSettledResult<T>[] = new Array(targets.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < targets.length) {
+        const index = next++;
+        try {
+          results[index] = { status: 'fulfilled', value: await task(targets[index]) };
+        } catch (reason) {
+          results[index] = { status: 'rejected', reason };
+        }
+      }
+    };
+
+    const workers = Math.min(this.config.limits.countryConcurrency, targets.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results;
+  }
+
+  private async compareApp(target: CompareTarget, options: CompareOptions, signal?: AbortSignal): Promise<AppComparison> {
+    const adapter = getStoreAdapter(target.platform);
+    const locale = { lang: options.lang, country: options.country, bypassCache: options.bypassCache };
+
+    const [info, result] = await Promise.all([
+      adapter.getAppInfo(target.appId, locale),
+      adapter.fetchReviews({ appId: target.appId, ...locale, sort: 'newest', num: options.num, signal })
+    ]);
+
+    const histogram = this.normalizeHistogram(info.histogram);
+    const histogramTotal = histogram ? STARS.reduce((sum, star) => sum + histogram[star], 0) : 0;
+    const { recentWindow, reviewVelocity } = this.measureRecent(result.reviews, options.windowDays, result.hasMore);
+
+    return {
+      ...target,
+      title: info.title || null,
+      score: typeof info.score === 'number' ? round(info.score) : null,
+      ratingsCount: toCount(info.ratings) ?? (histogramTotal || null),
+      histogram,
+      histogramShare: histogram && histogramTotal
+        ? Object.fromEntries(STARS.map(star => [star, round(histogram[star] / histogramTotal)])) as Histogram
+        : null,
+      recentWindow,
+      reviewVelocity,
+      // The App Store review feed does not include developer replies
+      replyRate: target.platform === 'google-play' && result.reviews.length
+        ? round(result.reviews.filter(review => review.reply).length / result.reviews.length)
+        : null,
+      topComplaints: this.topics.extract(result.reviews, { language: options.lang, limit: COMPLAINT_LIMIT }).low.keywords
+        .map(({ term, count, share }) => ({ term, count, share })),
+      sampleSize: result.reviews.length,
+      partial: result.partial || null,
+      error: null
+    };
+  }
+
+  /**
+   * Mean score and reviews per day of the recent window. The velocity is taken over the
+   * window when the sample reaches past its start, otherwise over the span the sample covers.
+   */
+  private measureRecent(reviews: UnifiedReview[], windowDays: number, hasMore: boolean): { recentWindow: RecentWindow; reviewVelocity: number | null } {
+    const now = Date.now();
+    const windowStart = now - windowDays * DAY_MS;
+    const times = reviews
+      .map(review => (review.date ? Date.parse(review.date) : NaN))
+      .filter(time => !isNaN(time));
+    const recent = reviews.filter(review => review.date && Date.parse(review.date) >= windowStart);
+    const stats = this.analytics.stats(recent);
+
+    const oldest = times.length ? Math.min(...times) : null;
+    const complete = !hasMore || (oldest !== null && oldest < windowStart);
+    const spanDays = oldest !== null ? Math.max((now - oldest) / DAY_MS, 1) : null;
+
+    return {
+      recentWindow: { days: windowDays, reviewCount: stats.count, meanScore: stats.meanScore, complete },
+      reviewVelocity: complete
+        ? round(stats.count / windowDays)
+        : spanDays ? round(times.length / spanDays) : null
+    };
+  }
+
+  /**
+   * Star histogram keyed '1' to '5', whichever key type the store used
+   */
+  private normalizeHistogram(value: unknown): Histogram | null {
+    if (!value || typeof value !== 'object') return null;
+
+    const raw = value as Record<string, unknown>;
+    return Object.fromEntries(STARS.map(star => [star, toCount(raw[star]) ?? 0])) as Histogram;
+  }
+
+  private failed(target: CompareTarget, error: string): AppComparison {
+    return {
+      ...target,
+      title: null,
+      score: null,
+      ratingsCount: null,
+      histogram: null,
+      histogramShare: null,
+      recentWindow: null,
+      reviewVelocity: null,
+      replyRate: null,
+      topComplaints: [],
+      sampleSize: 0,
+      partial: null,
+      error
+    };
+  }
+}
+
+function toCount(value: unknown): number | null {
+  const count = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(count) && count >= 0 ? count : null;
+}
+
+export const compareService = new CompareService();
@@ -0,0 +1,233 @@
+import { AppConfig, appConfig } from '../config';
+import { FailedPage } from './resilience';
+import { FetchStopReason } from './reviewFilter';
+import { parseFieldList } from './reviewColumns';
+
+export interface CountryReport {
+  /** Reviews fetched from the storefront, before filters */
+  scannedCount: number;
+  /** Reviews the storefront returned after filters */
+  matchedCount: number;
+  /** Matched reviews kept after dropping those another storefront already returned */
+  addedCount: number;
+  stopReason: FetchStopReason | null;
+  failedPages: FailedPage[];
+  /** Set when the storefront could not be fetched */
+  error: string | null;
+}
+
+export interface AggregationSummary {
+  countries: Record<string, CountryReport>;
+  /** Reviews dropped because another storefront returned the same review ID */
+  duplicateCount: number;
+}
+
+export type WithCountry<T> = T & { country: string };
+
+export interface AggregatedReviews<T> extends AggregationSummary {
+  reviews: WithCountry<T>[];
+  /** Reviews fetched from all storefronts, before filters and deduplication */
+  scannedCount: number;
+}
+
+/**
+ * Opens the review stream of one storefront. The opener reports scanned counts,
+ * the stop reason and failed pages into `report`; the aggregator counts the rest.
+ */
+export type CountryStreamOpener<T> = (country: string, report: CountryReport) => AsyncIterable<T[]>;
+
+interface CountryStep<T> {
+  country: string;
+  reviews?: T[];
+  done?: boolean;
+  error?: unknown;
+}
+
+/**
+ * Validate a `countries` parameter
+ * @param value Comma-separated string or array of two-letter country codes
+ * @param maxCountries Upper bound for the number of countries
+ * @returns Lower-cased countries without repeats (null when absent) or an error message
+ */
+export function parseCountries(value: unknown, maxCountries = appConfig.limits.maxCountries): { countries?: string[] | null; error?: string } {
+  const countries = parseFieldList(value);
+  if (!countries) return { countries: null };
+
+  const invalid = countries.filter(country => !/^[a-z]{2}$/i.test(country));
+  if (invalid.length > 0) {
+    return { error: `Countries must be two-letter codes: ${invalid.join(', ')}` };
+  }
+
+  const unique = [...new Set(countries.map(country => country.toLowerCase()))];
+  if (unique.length > maxCountries) {
+    return { error: `No more than ${maxCountries} countries can be requested at once` };
+  }
+
+  return { countries: unique };
+}
+
+/**
+ * Fetches the reviews of several storefronts, a bounded number at a time,
+ * tagging each review with its country and dropping reviews seen in another storefront
+ */
+export class CountryAggregator {
+  constructor(private readonly config: AppConfig = appConfig) {}
+
+  /**
+   * Empty per-country reports, to be filled while the countries are fetched
+   */
+  createSummary(countries: string[]): AggregationSummary {
+    return {
+      countries: Object.fromEntries(countries.map(country => [country, {
+        scannedCount: 0,
+        matchedCount: 0,
+        addedCount: 0,
+        stopReason: null,
+        failedPages: [],
+        error: null
+      }])),
+      duplicateCount: 0
+    };
+  }
+
+  /**
+   * Yield tagged review batches as the storefronts return them; a review ID is kept
+   * for the first storefront it arrives from
+   * @param countries Storefronts to fetch
+   * @param open Opens the review stream of one storefront
+   * @param summary Summary from `createSummary`, filled as batches arrive
+   * @param signal Cancels fetching; a cancelled fetch throws instead of being reported per country
+   * @returns Async generator of review batches
+   */
+  async *stream<T extends { id: string }>(
+    countries: string[],
+    open: CountryStreamOpener<T>,
+    summary: AggregationSummary,
+    signal?: AbortSignal
+  ): AsyncGenerator<WithCountry<T>[]> {
+    const seen = new Set<string>();
+
+    for await (const step of this.run(countries, open, summary, signal)) {
+      const batch = this.tagUnique(step.country, step.reviews || [], seen, summary);
+      if (batch.length > 0) yield batch;
+    }
+  }
+
+  /**
+   * Fetch every storefront and merge the reviews in the order the countries are listed,
+   * so the storefront a duplicate is kept for does not depend on timing
+   * @param countries Storefronts to fetch
+   * @param open Opens the review stream of one storefront
+   * @param signal Cancels fetching
+   * @returns Tagged reviews with per-country reports
+   */
+  async aggregate<T extends { id: string }>(
+    countries: string[],
+    open: CountryStreamOpener<T>,
+    signal?: AbortSignal
+  ): Promise<AggregatedReviews<T>> {
+    const summary = this.createSummary(countries);
+    const fetched = new Map<string, T[]>(countries.map(country => [country, []]));
+
+    for await (const step of this.run(countries, open, summary, signal)) {
+      fetched.get(step.country)!.push(...(step.reviews || []));
+    }
+
+    const seen = new Set<string>();
+    const reviews = countries.flatMap(country => this.tagUnique(country, fetched.get(country)!, seen, summary));
+    const scannedCount = Object.values(summary.countries).reduce((sum, report) => sum + report.scannedCount, 0);
+
+    return { reviews, scannedCount, ...summary };
+  }
+
+  /**
+   * Drive the storefront streams with at most `countryConcurrency` open at once,
+   * yielding batches as they arrive and recording failed storefronts in the summary
+   */
+  private async *run<T>(
+    countries: string[],
+    open: CountryStreamOpener<T>,
+    summary: AggregationSummary,
+    signal?: AbortSignal
+  ): AsyncGenerator<CountryStep<T>> {
+    const queue = [...countries];
+    const iterators = new Map<string, AsyncIterator<T[]>>();
+    const pending = new Map<string, Promise<CountryStep<T>>>();
+
+    const advance = (country: string, iterator: AsyncIterator<T[]>) => {
+      pending.set(country, iterator.next().then(
+        result => result.done ? { country, done: true } : { country, reviews: result.value },
+        error => ({ country, error })
+      ));
+    };
+
+    const fill = () => {
+      while (pending.size < this.config.limits.countryConcurrency && queue.length > 0) {
+        const country = queue.shift()!;
+        try {
+          const iterator = open(country, summary.countries[country])[Symbol.asyncIterator]();
+          iterators.set(country, iterator);
+          advance(country, iterator);
+        } catch (error) {
+          pending.set(country, Promise.resolve({ country, error }));
+        }
+      }
+    };
+
+    try {
+      fill();
+
+      while (pending.size > 0) {
+        const step = await Promise.race(pending.values());
+        const report = summary.countries[step.country];
+
+        if (step.error !== undefined || step.done) {
+          pending.delete(step.country);
+          iterators.delete(step.country);
+
+          if (step.error !== undefined) {
+            signal?.throwIfAborted();
+            console.error(`Reviews for country ${step.country} could not be fetched:`, step.error);
+            report.error = step.error instanceof Error ? step.error.message : 'Unknown error';
+          }
+
+          fill();
+          continue;
+        }
+
+        report.matchedCount += step.reviews!.length;
+        // Fetch the storefront's next batch while this one is handled
+        advance(step.country, iterators.get(step.country)!);
+        yield step;
+      }
+    } finally {
+      // Stop storefront streams the consumer no longer waits for
+      for (const iterator of iterators.values()) {
+        iterator.return?.().catch(() => undefined);
+      }
+    }
+
+    const failed = countries.filter(country => summary.countries[country].error);
+    if (failed.length === countries.length) {
+      throw new Error(`No country could be fetched: ${failed.map(country => `${country}: ${summary.countries[country].error}`).join('; ')}`);
+    }
+  }
+
+  private tagUnique<T extends { id: string }>(country: string, reviews: T[], seen: Set<string>, summary: AggregationSummary): WithCountry<T>[] {
+    const unique: WithCountry<T>[] = [];
+
+    for (const review of reviews) {
+      if (seen.has(review.id)) {
+        summary.duplicateCount++;
+        continue;
+      }
+      seen.add(review.id);
+      unique.push({ ...review, country });
+    }
+
+    summary.countries[country].addedCount += unique.length;
+    return unique;
+  }
+}
+
+export const countryAggregator = new CountryAggregator();
@@ -2,12 +2,135 @@ import fs from 'fs';
 import path from 'path';
 import { ReviewData } from './reviewService';
 import { AppStoreReviewData } from './appStoreService';
+import {
+  ReviewColumn,
+  GOOGLE_PLAY_COLUMNS,
+  APP_STORE_COLUMNS,
+  DEFAULT_GOOGLE_PLAY_COLUMNS,
+  DEFAULT_APP_STORE_COLUMNS
+} from './reviewColumns';
 
 export interface CSVExportOptions {
   appId: string;
   filename?: string;
   outputDir?: string;
   platform?: 'google-play' | 'app-store';
+  dialect?: CSVDialect;
+  columns?: ReviewColumn<any>[];
+  /** Cancels the export before the file is written */
+  signal?: AbortSignal;
+}
+
+const defaultGooglePlayColumns = GOOGLE_PLAY_COLUMNS.filter(column => DEFAULT_GOOGLE_PLAY_COLUMNS.includes(column.key));
+const defaultAppStoreColumns = APP_STORE_COLUMNS.filter(column => DEFAULT_APP_STORE_COLUMNS.includes(column.key));
+
+export type CSVQuoting = 'minimal' | 'all' | 'legacy';
+
+export interface CSVDialect {
+  delimiter: string;
+  lineTerminator: string;
+  /**
+   * - minimal: quote fields containing the delimiter, quotes or line breaks (RFC 4180)
+   * - all: quote every text field
+   * - legacy: quote only fields containing commas, quotes or newlines (pre-dialect behaviour)
+   */
+  quoting: CSVQuoting;
+  bom: boolean;
+  nullValue: string;
+  /** Replacement for blank fields, or null to write them as-is */
+  emptyValue: string | null;
+  emoji: 'keep' | 'strip';
+}
+
+export type CSVDialectPreset = 'rfc4180' | 'excel' | 'legacy';
+
+export const CSV_DIALECT_PRESETS: Record<CSVDialectPreset, CSVDialect> = {
+  rfc4180: {
+    delimiter: ',',
+    lineTerminator: '\r\n',
+    quoting: 'minimal',
+    bom: false,
+    nullValue: '',
+    emptyValue: null,
+    emoji: 'keep'
+  },
+  excel: {
+    delimiter: ',',
+    lineTerminator: '\r\n',
+    quoting: 'minimal',
+    bom: true,
+    nullValue: '',
+    emptyValue: null,
+    emoji: 'keep'
+  },
+  legacy: {
+    delimiter: ';;',
+    lineTerminator: '\n',
+    quoting: 'legacy',
+    bom: false,
+    nullValue: 'Null',
+    emptyValue: 'Nan',
+    emoji: 'strip'
+  }
+};
+
+export const DEFAULT_CSV_DIALECT = CSV_DIALECT_PRESETS.rfc4180;
+
+export interface CSVDialectInput {
+  dialect?: unknown;
+  delimiter?: unknown;
+  quoting?: unknown;
+  bom?: unknown;
+  nullValue?: unknown;
+  emoji?: unknown;
+}
+
+/**
+ * Build a CSV dialect from a preset name and individual overrides
+ * @param input Request parameters (query string or JSON body)
+ * @returns The dialect, or an error message when a parameter is invalid
+ */
+export function parseCSVDialect(input: CSVDialectInput): { dialect?: CSVDialect; error?: string } {
+  const presetName = (input.dialect ?? 'rfc4180') as string;
+  const preset = CSV_DIALECT_PRESETS[presetName as CSVDialectPreset];
+
+  if (!preset) {
+    return { error: `Dialect must be one of: ${Object.keys(CSV_DIALECT_PRESETS).join(', ')}` };
+  }
+
+  const dialect: CSVDialect = { ...preset };
+
+  if (input.delimiter !== undefined) {
+    const delimiter = input.delimiter === 'tab' ? '\t' : String(input.delimiter);
+    if (!delimiter || /["\r\n]/.test(delimiter)) {
+      return { error: 'Delimiter must be non-empty and cannot contain quotes or line breaks' };
+    }
+    dialect.delimiter = delimiter;
+  }
+
+  if (input.quoting !== undefined) {
+    if (!['minimal', 'all', 'legacy'].includes(input.quoting as string)) {
+      return { error: 'Quoting must be one of: minimal, all, legacy' };
+    }
+    dialect.quoting = input.quoting as CSVQuoting;
+  }
+
+  if (input.bom !== undefined) {
+    dialect.bom = input.bom === true || input.bom === 'true';
+  }
+
+  if (input.nullValue !== undefined) {
+    dialect.nullValue = String(input.nullValue);
+  }
+
+  if (input.emoji !== undefined) {
+    if (input.emoji !== 'keep' && input.emoji !== 'strip') {
+      return { error: 'Emoji must be one of: keep, strip' };
+    }
+    dialect.emoji = input.emoji;
+  }
+
+  return { dialect };
 }
 
 export class CSVService {
@@ -18,7 +141,10 @@ export class CSVService {
       const {
         appId,
         filename = `${appId}_reviews_${Date.now()}.csv`,
-        outputDir = CSVService.DEFAULT_OUTPUT_DIR
+        outputDir = CSVService.DEFAULT_OUTPUT_DIR,
+        dialect = DEFAULT_CSV_DIALECT,
+        columns,
+        signal
       } = options;
 
       const fullOutputDir = path.resolve(outputDir);
@@ -28,27 +154,11 @@ export class CSVService {
 
       const filePath = path.join(fullOutputDir, filename);
 
-      const csvHeader = [
-        'id',
-        'userName',
-        'content',
-        'score',
-        'date',
-        'thumbsUp',
-        'version'
-      ].join(';;');
-
-      const csvRows = reviews.map(review => [
-        this.escapeCsvField(review.id),
-        this.escapeCsvField(review.userName),
-        this.escapeCsvField(review.text),
-        review.score,
-        this.escapeCsvField(review.date),
-        review.thumbsUp,
-        this.escapeCsvField(review.version || '')
-      ].join(';;'));
-
-      const csvContent = [csvHeader, ...csvRows].join('\n');
+      const csvHeader = this.getReviewsCSVHeader(dialect, columns);
+      const csvRows = reviews.map(review => this.formatReviewCSVRow(review, dialect, columns));
+
+      const csvContent = this.getPreamble(dialect) + [csvHeader, ...csvRows].join(dialect.lineTerminator);
+      signal?.throwIfAborted();
       fs.writeFileSync(filePath, csvContent, 'utf8');
 
       return filePath;
@@ -63,7 +173,10 @@ export class CSVService {
       const {
         appId,
         filename = `appstore_${appId}_reviews_${Date.now()}.csv`,
-        outputDir = CSVService.DEFAULT_OUTPUT_DIR
+        outputDir = CSVService.DEFAULT_OUTPUT_DIR,
+        dialect = DEFAULT_CSV_DIALECT,
+        columns,
+        signal
       } = options;
 
       const fullOutputDir = path.resolve(outputDir);
@@ -73,27 +186,11 @@ export class CSVService {
 
       const filePath = path.join(fullOutputDir, filename);
 
-      const csvHeader = [
-        'id',
-        'userName',
-        'title',
-        'content',
-        'score',
-        'version',
-        'date'
-      ].join(';;');
-
-      const csvRows = reviews.map(review => [
-        this.escapeCsvField(review.id),
-        this.escapeCsvField(review.userName),
-        this.escapeCsvField(review.title),
-        this.escapeCsvField(review.text),
-        review.score,
-        this.escapeCsvField(review.version),
-        this.escapeCsvField(review.date)
-      ].join(';;'));
-
-      const csvContent = [csvHeader, ...csvRows].join('\n');
+      const csvHeader = this.getAppStoreReviewsCSVHeader(dialect, columns);
+      const csvRows = reviews.map(review => this.formatAppStoreReviewCSVRow(review, dialect, columns));
+
+      const csvContent = this.getPreamble(dialect) + [csvHeader, ...csvRows].join(dialect.lineTerminator);
+      signal?.throwIfAborted();
       fs.writeFileSync(filePath, csvContent, 'utf8');
 
       return filePath;
@@ -103,18 +200,53 @@ export class CSVService {
     }
   }
 
-  getExportStats(filePath: string) {
+  /**
+   * Byte order mark written before the header when the dialect asks for one
+   */
+  getPreamble(dialect: CSVDialect = DEFAULT_CSV_DIALECT): string {
+    return dialect.bom ? '\uFEFF' : '';
+  }
+
+  getReviewsCSVHeader(
+    dialect: CSVDialect = DEFAULT_CSV_DIALECT,
+    columns: ReviewColumn<ReviewData>[] = defaultGooglePlayColumns
+  ): string {
+    return this.formatHeader(columns, dialect);
+  }
+
+  formatReviewCSVRow(
+    review: ReviewData,
+    dialect: CSVDialect = DEFAULT_CSV_DIALECT,
+    columns: ReviewColumn<ReviewData>[] = defaultGooglePlayColumns
+  ): string {
+    return this.formatRow(review, columns, dialect);
+  }
+
+  getAppStoreReviewsCSVHeader(
+    dialect: CSVDialect = DEFAULT_CSV_DIALECT,
+    columns: ReviewColumn<AppStoreReviewData>[] = defaultAppStoreColumns
+  ): string {
+    return this.formatHeader(columns, dialect);
+  }
+
+  formatAppStoreReviewCSVRow(
+    review: AppStoreReviewData,
+    dialect: CSVDialect = DEFAULT_CSV_DIALECT,
+    columns: ReviewColumn<AppStoreReviewData>[] = defaultAppStoreColumns
+  ): string {
+    return this.formatRow(review, columns, dialect);
+  }
+
+  getExportStats(filePath: string, reviewCount?: number) {
     try {
       const stats = fs.statSync(filePath);
-      const content = fs.readFileSync(filePath, 'utf8');
-      const lines = content.split('\n').length - 1;
       
       return {
         filePath,
         fileName: path.basename(filePath),
         fileSize: stats.size,
         fileSizeFormatted: this.formatFileSize(stats.size),
-        reviewCount: lines - 1,
+        reviewCount: reviewCount ?? this.countCSVRows(filePath),
         createdAt: stats.birthtime,
         modifiedAt: stats.mtime
       };
@@ -123,6 +255,12 @@ export class CSVService {
     }
   }
 
+  private countCSVRows(filePath: string): number {
+    const content = fs.readFileSync(filePath, 'utf8');
+    const lines = content.split('\n').length - 1;
+    return lines - 1;
+  }
+
   listExports(outputDir = CSVService.DEFAULT_OUTPUT_DIR) {
     try {
       const fullOutputDir = path.resolve(outputDir);
@@ -132,7 +270,7 @@ export class CSVService {
       }
 
       const files = fs.readdirSync(fullOutputDir)
-        .filter(file => file.endsWith('.csv'))
+        .filter(file => file.endsWith('.csv') || file.endsWith('.xlsx'))
         .map(file => {
           const filePath = path.join(fullOutputDir, file);
           const stats = fs.statSync(filePath);
@@ -185,28 +323,66 @@ export class CSVService {
     }
   }
 
-  private escapeCsvField(field: string | undefined | null): string {
+  private escapeCsvField(field: string | undefined | null, dialect: CSVDialect): string {
     // Handle null/undefined values
-    if (field === null || field === undefined) return 'Null';
+    if (field === null || field === undefined) return dialect.nullValue;
     
     const original = String(field);
     
     // Handle empty strings or strings with only whitespace
-    if (original === '' || original.trim() === '') return 'Nan';
+    if (dialect.emptyValue !== null && original.trim() === '') return dialect.emptyValue;
     
-    // Remove emojis and other unicode symbols
-    let escaped = this.removeEmojis(original);
+    let escaped = original;
+
+    if (dialect.emoji === 'strip') {
+      // Remove emojis and other unicode symbols
+      escaped = this.removeEmojis(original);
     
-    // If after emoji removal, field becomes empty, return empty string
-    if (!escaped || escaped.trim() === '') return '';
+      // If after emoji removal, field becomes empty, return empty string
+      if (!escaped || escaped.trim() === '') return '';
+    }
     
-    if (escaped.includes(',') || escaped.includes('"') || escaped.includes('\n')) {
+    if (this.needsQuoting(escaped, dialect)) {
       escaped = '"' + escaped.replace(/"/g, '""') + '"';
     }
     
     return escaped;
   }
 
+  private formatHeader<T>(columns: ReviewColumn<T>[], dialect: CSVDialect): string {
+    return columns.map(column => this.escapeCsvField(column.header, dialect)).join(dialect.delimiter);
+  }
+
+  private formatRow<T>(review: T, columns: ReviewColumn<T>[], dialect: CSVDialect): string {
+    return columns.map(column => {
+      const value = column.value(review);
+
+      if (column.type === 'number') {
+        return this.formatNumber(value as number | undefined | null, dialect);
+      }
+      if (value instanceof Date) {
+        return this.escapeCsvField(value.toISOString(), dialect);
+      }
+      return this.escapeCsvField(value as string | undefined | null, dialect);
+    }).join(dialect.delimiter);
+  }
+
+  private needsQuoting(value: string, dialect: CSVDialect): boolean {
+    switch (dialect.quoting) {
+      case 'all':
+        return true;
+      case 'legacy':
+        return value.includes(',') || value.includes('"') || value.includes('\n');
+      case 'minimal':
+      default:
+        return value.includes(dialect.delimiter) || /["\r\n]/.test(value);
+    }
+  }
+
+  private formatNumber(value: number | undefined | null, dialect: CSVDialect): string {
+    return typeof value === 'number' && !isNaN(value) ? String(value) : dialect.nullValue;
+  }
+
   private removeEmojis(text: string): string {
     // Remove emojis and unicode symbols using comprehensive regex
     return text
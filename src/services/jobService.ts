@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobRecord {
+  id: string;
+  type: string;
+  state: JobState;
+  params: Record<string, unknown>;
+  requestedCount: number | null;
+  fetchedCount: number;
+  errors: string[];
+  result: Record<string, unknown> | null;
+  downloadUrl: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  reportProgress(fetchedCount: number): void;
+}
+
+export interface JobOutcome {
+  result: Record<string, unknown>;
+  downloadUrl?: string;
+  /** Problems that did not fail the job, such as pages that could not be fetched */
+  errors?: string[];
+}
+
+export type JobTask = (context: JobContext) => Promise<JobOutcome>;
+
+export interface CreateJobOptions {
+  type: string;
+  params: Record<string, unknown>;
+  requestedCount?: number;
+}
+
+/**
+ * Runs long operations in the background and keeps their records in a JSON
+ * file so finished jobs are still discoverable after a restart.
+ */
+export class JobService {
+  private static readonly DEFAULT_JOBS_FILE = 'data/jobs.json';
+
+  private readonly jobs = new Map<string, JobRecord>();
+  private readonly controllers = new Map<string, AbortController>();
+
+  constructor(private readonly jobsFile = JobService.DEFAULT_JOBS_FILE) {
+    this.load();
+  }
+
+  /**
+   * Register a job and start it on the next tick
+   * @param options Job description
+   * @param task Work to run in the background
+   * @returns The created job record
+   */
+  create(options: CreateJobOptions, task: JobTask): JobRecord {
+    const job: JobRecord = {
+      id: randomUUID(),
+      type: options.type,
+      state: 'queued',
+      params: options.params,
+      requestedCount: options.requestedCount ?? null,
+      fetchedCount: 0,
+      errors: [],
+      result: null,
+      downloadUrl: null,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null
+    };
+
+    this.jobs.set(job.id, job);
+    this.save();
+
+    setImmediate(() => this.run(job, task));
+    return job;
+  }
+
+  get(id: string): JobRecord | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): JobRecord[] {
+    return [...this.jobs.values()]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Cancel a queued or running job
+   * @param id Job ID
+   * @returns Updated record, or undefined when the job does not exist
+   */
+  cancel(id: string): JobRecord | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    if (job.state === 'queued' || job.state === 'running') {
+      this.controllers.get(id)?.abort();
+      this.finish(job, 'cancelled');
+    }
+
+    return job;
+  }
+
+  private async run(job: JobRecord, task: JobTask): Promise<void> {
+    if (job.state !== 'queued') return;
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    job.state = 'running';
+    job.startedAt = new Date().toISOString();
+    this.save();
+
+    try {
+      const outcome = await task({
+        signal: controller.signal,
+        reportProgress: (fetchedCount: number) => {
+          job.fetchedCount = fetchedCount;
+          this.save();
+        }
+      });
+
+      if (controller.signal.aborted) return;
+
+      job.result = outcome.result;
+      job.downloadUrl = outcome.downloadUrl || null;
+      job.errors.push(...(outcome.errors || []));
+      this.finish(job, 'completed');
+
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      console.error(`Job ${job.id} failed:`, error);
+      job.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      this.finish(job, 'failed');
+
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+
+  private finish(job: JobRecord, state: JobState): void {
+    job.state = state;
+    job.finishedAt = new Date().toISOString();
+    this.save();
+  }
+
+  private load(): void {
+    const filePath = path.resolve(this.jobsFile);
+    if (!fs.existsSync(filePath)) return;
+
+    try {
+      const records: JobRecord[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+      for (const job of records) {
+        // Jobs that were in progress when the server stopped cannot be resumed
+        if (job.state === 'queued' || job.state === 'running') {
+          job.state = 'failed';
+          job.errors.push('Interrupted by server restart');
+          job.finishedAt = new Date().toISOString();
+        }
+        this.jobs.set(job.id, job);
+      }
+    } catch (error) {
+      console.error('Error loading job records:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      const filePath = path.resolve(this.jobsFile);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.list()), 'utf8');
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      console.error('Error saving job records:', error);
+    }
+  }
+}
+
+export const jobService = new JobService();
@@ -0,0 +1,147 @@
+import { tokenize, isWordToken } from '../tokenizer';
+import { LanguageProfile, ScriptProfile, LATIN_PROFILES, SCRIPT_PROFILES } from './profiles';
+
+type LanguageInput = { text?: string | null; title?: string | null; detectedLanguage?: string | null };
+
+/** Key counting reviews whose language could not be detected */
+export const UNKNOWN_LANGUAGE = 'unknown';
+
+interface CompiledProfile {
+  profile: LanguageProfile;
+  words: Set<string>;
+  letters: RegExp | null;
+}
+
+const LETTER_PATTERN = /\p{L}/gu;
+const LATIN_PATTERN = /\p{Script=Latin}/u;
+// Fewer letters than this, e.g. "ok" or emoji only, say nothing about the language
+const MIN_LETTERS = 3;
+
+/**
+ * Offline language identification of review text: by script for non-Latin writing,
+ * by frequent words and distinctive letters for Latin-script languages
+ */
+export class LanguageDetector {
+  private readonly profiles = new Map<string, CompiledProfile>();
+
+  constructor(profiles: LanguageProfile[] = [], private readonly scripts: ScriptProfile[] = []) {
+    profiles.forEach(profile => this.register(profile));
+  }
+
+  /**
+   * Add or replace the profile of a Latin-script language
+   */
+  register(profile: LanguageProfile): void {
+    this.profiles.set(profile.language, {
+      profile,
+      words: new Set(profile.words.map(word => word.toLocaleLowerCase(profile.locale))),
+      letters: profile.letters ? new RegExp(`[${profile.letters}]`, 'u') : null
+    });
+  }
+
+  /**
+   * Codes of every language the detector can report
+   */
+  languages(): string[] {
+    const scriptLanguages = this.scripts.flatMap(script => [script.language, ...(script.variants || []).map(variant => variant.language)]);
+    return [...new Set([...this.profiles.keys(), ...scriptLanguages])];
+  }
+
+  /**
+   * Detect the language of a text
+   * @param text Text to identify
+   * @returns ISO 639-1 code, or null when the text is too short or matches no language clearly
+   */
+  detect(text: string): string | null {
+    const letters = (text || '').match(LETTER_PATTERN) || [];
+    if (letters.length < MIN_LETTERS) return null;
+
+    // The script most letters are written in decides before any word is looked at
+    const latinCount = letters.filter(letter => LATIN_PATTERN.test(letter)).length;
+    let script: ScriptProfile | null = null;
+    let scriptCount = 0;
+
+    for (const candidate of this.scripts) {
+      const count = letters.filter(letter => candidate.script.test(letter)).length;
+      if (count > scriptCount) {
+        script = candidate;
+        scriptCount = count;
+      }
+    }
+
+    if (script && scriptCount > latinCount) {
+      return script.variants?.find(variant => variant.letters.test(text))?.language || script.language;
+    }
+
+    return latinCount > 0 ? this.detectLatin(text) : null;
+  }
+
+  /**
+   * Detect the language of a review, reading its title (App Store) together with its text
+   */
+  detectReview(review: { text?: string | null; title?: string | null }): string | null {
+    return this.detect([review.title, review.text].filter(Boolean).join('. '));
+  }
+
+  /**
+   * Language of a review, reusing its `detectedLanguage` when one was already detected
+   */
+  languageOf(review: LanguageInput): string | null {
+    return review.detectedLanguage !== undefined ? review.detectedLanguage : this.detectReview(review);
+  }
+
+  /**
+   * Number of reviews per detected language, most frequent first
+   * @param reviews Reviews to count
+   * @returns Counts keyed by language code, with undetected reviews under `unknown`
+   */
+  count(reviews: LanguageInput[]): Record<string, number> {
+    const counts = new Map<string, number>();
+    for (const review of reviews) {
+      const language = this.languageOf(review) || UNKNOWN_LANGUAGE;
+      counts.set(language, (counts.get(language) || 0) + 1);
+    }
+
+    return Object.fromEntries([...counts.entries()].sort((a, b) => b[1] - a[1]));
+  }
+
+  /**
+   * Score every Latin-script profile by the words and distinctive letters the text shares with it;
+   * a tie means the text cannot tell the languages apart
+   */
+  private detectLatin(text: string): string | null {
+    const tokensByLocale = new Map<string, string[]>();
+    let best: string | null = null;
+    let bestScore = 0;
+    let tied = false;
+
+    for (const [language, compiled] of this.profiles) {
+      const { locale } = compiled.profile;
+      let tokens = tokensByLocale.get(locale);
+      if (!tokens) {
+        tokens = tokenize(text, locale).filter(isWordToken);
+        tokensByLocale.set(locale, tokens);
+      }
+
+      let score = 0;
+      for (const token of tokens) {
+        if (compiled.words.has(token)) score++;
+        if (compiled.letters?.test(token)) score++;
+      }
+
+      if (score > bestScore) {
+        best = language;
+        bestScore = score;
+        tied = false;
+      } else if (score > 0 && score === bestScore) {
+        tied = true;
+      }
+    }
+
+    return tied ? null : best;
+  }
+}
+
+export const languageDetector = new LanguageDetector(LATIN_PROFILES, SCRIPT_PROFILES);
+
+export { LanguageProfile, ScriptProfile, LATIN_PROFILES, SCRIPT_PROFILES };
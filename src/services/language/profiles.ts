@@ -0,0 +1,135 @@
+/**
+ * Words and letters that identify a language written in the Latin script
+ */
+export interface LanguageProfile {
+  /** ISO 639-1 code reported for matching text */
+  language: string;
+  /** Locale used for lowercasing */
+  locale: string;
+  /** Frequent words of short reviews, with apostrophes dropped as the tokenizer does */
+  words: string[];
+  /** Letters rarely used by the other registered languages */
+  letters?: string;
+}
+
+/**
+ * Languages identified by their script alone. A script with several languages lists the
+ * letters that set the others apart, checked in order before falling back to `language`.
+ */
+export interface ScriptProfile {
+  script: RegExp;
+  language: string;
+  variants?: { language: string; letters: RegExp }[];
+}
+
+export const LATIN_PROFILES: LanguageProfile[] = [
+  {
+    language: 'en',
+    locale: 'en-US',
+    words: [
+      'the', 'and', 'is', 'it', 'this', 'to', 'of', 'for', 'not', 'you', 'my', 'with', 'but', 'very',
+      'good', 'great', 'was', 'are', 'have', 'can', 'just', 'love', 'please', 'works', 'bad', 'what',
+      'when', 'dont', 'cant', 'its', 'im', 'app', 'nice', 'best', 'worst'
+    ]
+  },
+  {
+    language: 'tr',
+    locale: 'tr-TR',
+    letters: 'ğış',
+    words: [
+      've', 'bir', 'bu', 'çok', 'için', 'ile', 'ama', 'değil', 'güzel', 'uygulama', 'neden', 'ne',
+      'gibi', 'daha', 'hiç', 'yok', 'var', 'ben', 'sadece', 'lütfen', 'berbat', 'harika', 'artık',
+      'mı', 'mi', 'oldu', 'olmuyor', 'açılmıyor', 'teşekkürler', 'kötü', 'iyi'
+    ]
+  },
+  {
+    language: 'de',
+    locale: 'de-DE',
+    letters: 'äß',
+    words: [
+      'der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sehr', 'mit', 'ein', 'eine', 'zu', 'auf',
+      'für', 'aber', 'gut', 'kann', 'wird', 'mehr', 'noch', 'schon', 'leider', 'immer', 'keine',
+      'bitte', 'auch', 'funktioniert', 'wenn', 'schlecht', 'super'
+    ]
+  },
+  {
+    language: 'fr',
+    locale: 'fr-FR',
+    letters: 'âêèëîïôûœù',
+    words: [
+      'le', 'la', 'les', 'et', 'est', 'je', 'pas', 'une', 'un', 'des', 'très', 'pour', 'que', 'qui',
+      'mais', 'avec', 'application', 'bien', 'sur', 'plus', 'ça', 'cest', 'jai', 'nest', 'du', 'au',
+      'merci', 'tout', 'fonctionne', 'nul'
+    ]
+  },
+  {
+    language: 'es',
+    locale: 'es-ES',
+    letters: 'ñ',
+    words: [
+      'el', 'la', 'los', 'las', 'y', 'es', 'que', 'no', 'muy', 'en', 'por', 'para', 'con', 'una',
+      'pero', 'me', 'lo', 'se', 'buena', 'bien', 'aplicación', 'más', 'todo', 'cuando', 'funciona',
+      'gracias', 'porque', 'hay', 'malo', 'excelente'
+    ]
+  },
+  {
+    language: 'pt',
+    locale: 'pt-BR',
+    letters: 'ãõ',
+    words: [
+      'o', 'os', 'e', 'é', 'que', 'não', 'muito', 'em', 'para', 'com', 'uma', 'um', 'mas', 'eu',
+      'bom', 'boa', 'aplicativo', 'mais', 'está', 'tem', 'isso', 'quando', 'funciona', 'obrigado',
+      'já', 'você', 'ótimo', 'ruim', 'pra', 'consigo'
+    ]
+  },
+  {
+    language: 'it',
+    locale: 'it-IT',
+    letters: 'ìò',
+    words: [
+      'il', 'lo', 'e', 'è', 'che', 'non', 'molto', 'di', 'per', 'con', 'una', 'ma', 'io', 'mi',
+      'bene', 'bella', 'applicazione', 'più', 'sono', 'questa', 'tutto', 'quando', 'funziona',
+      'grazie', 'anche', 'perché', 'solo', 'ho', 'ottima', 'pessima'
+    ]
+  },
+  {
+    language: 'nl',
+    locale: 'nl-NL',
+    words: [
+      'de', 'het', 'een', 'en', 'is', 'niet', 'ik', 'van', 'dat', 'met', 'voor', 'maar', 'heel',
+      'goed', 'op', 'te', 'ook', 'wel', 'geen', 'nog', 'kan', 'werkt', 'altijd', 'graag', 'dit',
+      'bij', 'als', 'er', 'slecht', 'prima'
+    ]
+  },
+  {
+    language: 'pl',
+    locale: 'pl-PL',
+    letters: 'ąćęłńśźż',
+    words: [
+      'i', 'w', 'nie', 'jest', 'się', 'na', 'to', 'z', 'do', 'że', 'bardzo', 'ale', 'jak',
+      'aplikacja', 'dobra', 'tak', 'po', 'już', 'co', 'działa', 'tylko', 'za', 'czy', 'od', 'można',
+      'wszystko', 'dla', 'polecam', 'słaba', 'super'
+    ]
+  },
+  {
+    language: 'id',
+    locale: 'id-ID',
+    words: [
+      'dan', 'yang', 'di', 'ini', 'tidak', 'saya', 'untuk', 'dengan', 'aplikasi', 'bagus', 'sangat',
+      'tapi', 'ada', 'bisa', 'sudah', 'ke', 'itu', 'juga', 'lagi', 'tolong', 'mohon', 'kenapa', 'kok',
+      'banget', 'jadi', 'apa', 'mau', 'karena', 'dari', 'belum'
+    ]
+  }
+];
+
+export const SCRIPT_PROFILES: ScriptProfile[] = [
+  { script: /\p{Script=Cyrillic}/u, language: 'ru', variants: [{ language: 'uk', letters: /[іїєґ]/iu }] },
+  { script: /\p{Script=Arabic}/u, language: 'ar', variants: [{ language: 'fa', letters: /[پچژگی]/u }] },
+  { script: /\p{Script=Hebrew}/u, language: 'he' },
+  { script: /\p{Script=Greek}/u, language: 'el' },
+  // Japanese mixes kanji with kana, so kana decides between the two
+  { script: /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u, language: 'zh', variants: [{ language: 'ja', letters: /[\p{Script=Hiragana}\p{Script=Katakana}]/u }] },
+  { script: /\p{Script=Hangul}/u, language: 'ko' },
+  { script: /\p{Script=Thai}/u, language: 'th' },
+  { script: /\p{Script=Devanagari}/u, language: 'hi' }
+];
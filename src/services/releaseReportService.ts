@@ -0,0 +1,226 @@
+import { AnalyticsService, AnalyticsInput, RatingStats, compareVersions, round } from './analyticsService';
+import { TopicExtractor, TopicInput, TopicTerm, topicExtractor } from './topics';
+import { toIsoDate } from './storeAdapter';
+import { SCORE_BANDS } from './scoreBands';
+
+export type ReleaseReview = AnalyticsInput & TopicInput;
+
+export interface CurrentRelease {
+  version: string | null;
+  releaseDate: string | null;
+  releaseNotes: string | null;
+}
+
+export interface ReleaseComparison {
+  /** Version the release is compared against */
+  baselineVersion: string;
+  meanScoreChange: number | null;
+  /** Change of the share of 1-2 star reviews */
+  lowScoreShareChange: number | null;
+  /** One-sided p-value of the mean score having dropped (Welch z-test) */
+  meanDropPValue: number | null;
+  /** One-sided p-value of the 1-2 star share having risen (two-proportion z-test) */
+  lowShareRisePValue: number | null;
+  /** Complaint keywords of this release the baseline did not have among its complaints */
+  newComplaints: string[];
+}
+
+export interface ReleaseReport {
+  version: string;
+  releaseDate: string | null;
+  /** `store` for the current release, otherwise the date of the first review of the version */
+  releaseDateSource: 'store' | 'first-review' | null;
+  releaseNotes: string | null;
+  stats: RatingStats;
+  lowScoreShare: number | null;
+  /** Most mentioned keywords of 1-2 star reviews */
+  topComplaints: TopicTerm[];
+  comparison: ReleaseComparison | null;
+  /** The release or its baseline has fewer reviews than needed to test for a drop */
+  insufficientData: boolean;
+  /** Scores dropped significantly compared to the baseline */
+  regression: boolean;
+}
+
+export interface RegressionReport {
+  current: CurrentRelease | null;
+  /** Releases from newest to oldest */
+  releases: ReleaseReport[];
+  /** Versions flagged as regressions, newest first */
+  regressions: string[];
+}
+
+export interface RegressionOptions {
+  /** Reviews a release and its baseline each need before drops are tested (default: 20) */
+  minReviews?: number;
+  /** Significance level of the drop tests (default: 0.05) */
+  alpha?: number;
+  /** Complaint keywords listed per release (default: 5) */
+  complaints?: number;
+  /** Language assumed for stopwords */
+  language?: string;
+}
+
+// Complaint keywords of the baseline that count as already known
+const KNOWN_COMPLAINTS_LIMIT = 50;
+
+/**
+ * Compares every app release with the one before it to catch rating regressions
+ */
+export class ReleaseReportService {
+  constructor(
+    private readonly analytics = new AnalyticsService(),
+    private readonly topics: TopicExtractor = topicExtractor
+  ) {}
+
+  /**
+   * Read the current version, its release date and notes from store app info
+   * @param appInfo Result of getAppInfo for either store
+   * @returns Current release
+   */
+  currentRelease(appInfo: Record<string, any>): CurrentRelease {
+    return {
+      version: appInfo.version || null,
+      // App Store: currentVersionReleaseDate; Google Play: updated (timestamp)
+      releaseDate: toIsoDate(appInfo.currentVersionReleaseDate) || toIsoDate(appInfo.updated),
+      releaseNotes: appInfo.releaseNotes || appInfo.recentChanges || null
+    };
+  }
+
+  /**
+   * Build the per-release report
+   * @param reviews Reviews of all versions
+   * @param current Current release from the store, when available
+   * @param options Thresholds and language
+   * @returns Releases with their comparison against the previous release
+   */
+  build(reviews: ReleaseReview[], current: CurrentRelease | null, options: RegressionOptions = {}): RegressionReport {
+    const { minReviews = 20, alpha = 0.05, complaints = 5, language } = options;
+
+    const groups = new Map<string, ReleaseReview[]>();
+    for (const review of reviews) {
+      if (!review.version) continue;
+      const group = groups.get(review.version);
+      if (group) group.push(review);
+      else groups.set(review.version, [review]);
+    }
+
+    const versions = [...groups.keys()].sort(compareVersions);
+    const releases: ReleaseReport[] = [];
+
+    versions.forEach((version, index) => {
+      const group = groups.get(version) as ReleaseReview[];
+      const topComplaints = this.complaints(group, complaints, language);
+
+      // Compare with the closest older release that has enough reviews, or the previous one
+      const older = versions.slice(0, index).reverse();
+      const baselineVersion = older.find(candidate => (groups.get(candidate) as ReleaseReview[]).length >= minReviews) || older[0];
+      const baseline = baselineVersion ? groups.get(baselineVersion) as ReleaseReview[] : null;
+
+      const comparison = baselineVersion && baseline
+        ? this.compare(group, baselineVersion, baseline, topComplaints, language)
+        : null;
+
+      const insufficientData = !baseline || group.length < minReviews || baseline.length < minReviews;
+      const regression = !insufficientData && !!comparison && (
+        (comparison.meanDropPValue !== null && comparison.meanDropPValue < alpha) ||
+        (comparison.lowShareRisePValue !== null && comparison.lowShareRisePValue < alpha)
+      );
+
+      const isCurrent = !!current && current.version === version;
+      const firstReviewAt = group.map(review => review.date).filter((date): date is string => !!date).sort()[0] || null;
+      const releaseDate = isCurrent && current.releaseDate ? current.releaseDate : firstReviewAt;
+
+      releases.push({
+        version,
+        releaseDate,
+        releaseDateSource: isCurrent && current.releaseDate ? 'store' : (firstReviewAt ? 'first-review' : null),
+        releaseNotes: isCurrent ? current.releaseNotes : null,
+        stats: this.analytics.stats(group),
+        lowScoreShare: round(this.lowShare(group)),
+        topComplaints,
+        comparison,
+        insufficientData,
+        regression
+      });
+    });
+
+    releases.reverse();
+
+    return {
+      current,
+      releases,
+      regressions: releases.filter(release => release.regression).map(release => release.version)
+    };
+  }
+
+  private compare(
+    group: ReleaseReview[],
+    baselineVersion: string,
+    baseline: ReleaseReview[],
+    topComplaints: TopicTerm[],
+    language?: string
+  ): ReleaseComparison {
+    const current = summarize(group);
+    const previous = summarize(baseline);
+
+    const meanStandardError = Math.sqrt(current.variance / current.count + previous.variance / previous.count);
+    const meanChange = current.mean - previous.mean;
+    const meanDropPValue = meanStandardError > 0
+      ? normalCdf(meanChange / meanStandardError)
+      : (meanChange < 0 ? 0 : 1);
+
+    const currentLow = this.lowShare(group);
+    const previousLow = this.lowShare(baseline);
+    const pooled = (currentLow * group.length + previousLow * baseline.length) / (group.length + baseline.length);
+    const shareStandardError = Math.sqrt(pooled * (1 - pooled) * (1 / group.length + 1 / baseline.length));
+    const lowShareChange = currentLow - previousLow;
+    const lowShareRisePValue = shareStandardError > 0
+      ? 1 - normalCdf(lowShareChange / shareStandardError)
+      : (lowShareChange > 0 ? 0 : 1);
+
+    const known = new Set(this.complaints(baseline, KNOWN_COMPLAINTS_LIMIT, language).map(term => term.term.toLowerCase()));
+
+    return {
+      baselineVersion,
+      meanScoreChange: round(meanChange),
+      lowScoreShareChange: round(lowShareChange),
+      meanDropPValue: round(meanDropPValue, 4),
+      lowShareRisePValue: round(lowShareRisePValue, 4),
+      newComplaints: topComplaints.map(term => term.term).filter(term => !known.has(term.toLowerCase()))
+    };
+  }
+
+  private complaints(reviews: ReleaseReview[], limit: number, language?: string): TopicTerm[] {
+    return this.topics.extract(reviews, { language, limit, minCount: 2 }).low.keywords;
+  }
+
+  private lowShare(reviews: ReleaseReview[]): number {
+    return reviews.filter(review => SCORE_BANDS.low.includes(review.score)).length / reviews.length;
+  }
+}
+
+/**
+ * Count, mean and sample variance of review scores
+ */
+function summarize(reviews: ReleaseReview[]): { count: number; mean: number; variance: number } {
+  const count = reviews.length;
+  const mean = reviews.reduce((sum, review) => sum + review.score, 0) / count;
+  const variance = count > 1
+    ? reviews.reduce((sum, review) => sum + (review.score - mean) ** 2, 0) / (count - 1)
+    : 0;
+
+  return { count, mean, variance };
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26 approximation of erf)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const polynomial = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - polynomial * Math.exp(-x * x);
+
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -0,0 +1,164 @@
+import { BucketInterval, buildSeries, round } from './analyticsService';
+import { ScoreBand, SCORE_BANDS } from './scoreBands';
+import { UnifiedReply } from './storeAdapter';
+
+export interface ReplyInput {
+  id: string;
+  score: number;
+  date: string | null;
+  text: string;
+  url: string | null;
+  reply: UnifiedReply | null;
+}
+
+export interface ReplyRateStats {
+  reviewCount: number;
+  repliedCount: number;
+  /** Share of reviews with a developer reply, null when there are no reviews */
+  replyRate: number | null;
+  /** Hours from review to reply; replies without a date, or dated before their review, are left out */
+  medianHoursToReply: number | null;
+  p90HoursToReply: number | null;
+}
+
+export interface ScoreBandReplyStats extends ReplyRateStats {
+  band: ScoreBand;
+  scores: number[];
+}
+
+export interface ReplyTrendBucket extends ReplyRateStats {
+  /** First day of the bucket the reviews were written in (YYYY-MM-DD, UTC; weeks start on Monday) */
+  period: string;
+}
+
+export interface UnansweredReview {
+  id: string;
+  score: number;
+  date: string;
+  /** Days since the review was written */
+  ageDays: number;
+  text: string;
+  url: string | null;
+}
+
+export interface UnansweredReport {
+  olderThanDays: number;
+  scores: number[];
+  /** All matching reviews, while `reviews` holds at most `limit` of them */
+  count: number;
+  /** Longest waiting first */
+  reviews: UnansweredReview[];
+}
+
+export interface ReplyReport {
+  overall: ReplyRateStats;
+  byScoreBand: ScoreBandReplyStats[];
+  interval: BucketInterval;
+  /** Consecutive buckets from the oldest to the newest review, empty ones included */
+  series: ReplyTrendBucket[];
+  unanswered: UnansweredReport;
+}
+
+export interface ReplyReportOptions {
+  /** Bucket size of the trend series (default: 'week') */
+  interval?: BucketInterval;
+  /** Age after which an unanswered 1-2 star review is listed (default: 7) */
+  olderThanDays?: number;
+  /** Unanswered reviews to list (default: 50) */
+  limit?: number;
+  /** Reference time of the ages, for reproducible reports */
+  now?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Measures how often and how fast developers reply to reviews
+ */
+export class ReplyStatsService {
+  /**
+   * Build a reply report
+   * @param reviews Reviews with their developer replies
+   * @param options Trend interval, unanswered age threshold and list size
+   * @returns Reply rates and times overall, per score band and over time, with unanswered low-score reviews
+   */
+  analyze(reviews: ReplyInput[], options: ReplyReportOptions = {}): ReplyReport {
+    const { interval = 'week', olderThanDays = 7, limit = 50, now = Date.now() } = options;
+
+    return {
+      overall: this.stats(reviews),
+      byScoreBand: (Object.keys(SCORE_BANDS) as ScoreBand[]).map(band => ({
+        band,
+        scores: SCORE_BANDS[band],
+        ...this.stats(reviews.filter(review => SCORE_BANDS[band].includes(review.score)))
+      })),
+      interval,
+      series: buildSeries(reviews, interval, group => this.stats(group)),
+      unanswered: this.findUnanswered(reviews, olderThanDays, limit, now)
+    };
+  }
+
+  /**
+   * Reply rate and median and 90th percentile time to reply of a set of reviews
+   */
+  stats(reviews: ReplyInput[]): ReplyRateStats {
+    const replied = reviews.filter(review => review.reply);
+    const hours = replied
+      .map(review => this.hoursToReply(review))
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b);
+
+    return {
+      reviewCount: reviews.length,
+      repliedCount: replied.length,
+      replyRate: reviews.length ? round(replied.length / reviews.length) : null,
+      medianHoursToReply: percentile(hours, 0.5),
+      p90HoursToReply: percentile(hours, 0.9)
+    };
+  }
+
+  private hoursToReply(review: ReplyInput): number | null {
+    if (!review.date || !review.reply?.date) return null;
+
+    const elapsed = Date.parse(review.reply.date) - Date.parse(review.date);
+    // Editing a review after the reply moves its date past the reply
+    return isNaN(elapsed) || elapsed < 0 ? null : elapsed / HOUR_MS;
+  }
+
+  private findUnanswered(reviews: ReplyInput[], olderThanDays: number, limit: number, now: number): UnansweredReport {
+    const scores = SCORE_BANDS.low;
+    const threshold = now - olderThanDays * DAY_MS;
+
+    const waiting = reviews
+      .filter(review => !review.reply && scores.includes(review.score) && review.date && Date.parse(review.date) <= threshold)
+      .sort((a, b) => Date.parse(a.date as string) - Date.parse(b.date as string));
+
+    return {
+      olderThanDays,
+      scores,
+      count: waiting.length,
+      reviews: waiting.slice(0, limit).map(review => ({
+        id: review.id,
+        score: review.score,
+        date: review.date as string,
+        ageDays: Math.floor((now - Date.parse(review.date as string)) / DAY_MS),
+        text: review.text,
+        url: review.url
+      }))
+    };
+  }
+}
+
+/**
+ * Linearly interpolated percentile of sorted values, rounded to one decimal
+ */
+function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) return null;
+
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  return round(value, 1);
+}
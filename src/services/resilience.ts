@@ -0,0 +1,206 @@
+import { AppConfig, appConfig } from '../config';
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** Time the circuit stays open before a trial call is let through */
+  resetTimeoutMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A page of a multi-page fetch that still failed after all retries
+ */
+export interface FailedPage {
+  /** 1-based page or batch number */
+  page: number;
+  /** Pagination token or page number the request was made with */
+  cursor: string | null;
+  error: string;
+}
+
+/**
+ * Attached to multi-page results when some pages could not be fetched
+ */
+export interface PartialResult {
+  failedPages: FailedPage[];
+  /** Cursor of the last page fetched successfully; resume from here */
+  lastGoodToken: string | null;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string, retryInMs: number) {
+    super(`${name} is temporarily unavailable (circuit open), retry in ${Math.ceil(retryInMs / 1000)} seconds`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Wait for the given time, rejecting early when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Whether an upstream error is worth retrying; client errors other than 429 are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) return false;
+  if (error instanceof Error && error.name === 'AbortError') return false;
+
+  const status = (error as any)?.status ?? (error as any)?.statusCode ?? (error as any)?.response?.statusCode;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+
+  return true;
+}
+
+/**
+ * Fails fast while an upstream keeps failing, then lets a single trial call
+ * through once the reset timeout has passed
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name, this.options.resetTimeoutMs - (Date.now() - this.openedAt));
+    }
+
+    const isTrial = state === 'half-open';
+    if (isTrial) this.trialInFlight = true;
+
+    try {
+      const result = await operation();
+      this.state = 'closed';
+      this.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      // Client errors say nothing about the health of the upstream
+      if (isRetryableError(error)) {
+        this.recordFailure(isTrial);
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  private recordFailure(isTrial: boolean): void {
+    this.consecutiveFailures++;
+
+    if (isTrial || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open' || isTrial) {
+        console.warn(`⚠️ Circuit for ${this.name} opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+/**
+ * Retries upstream calls with jittered exponential backoff behind a circuit breaker
+ */
+export class ResiliencePolicy {
+  readonly breaker: CircuitBreaker;
+
+  constructor(
+    readonly name: string,
+    private readonly retry: RetryOptions,
+    breaker: CircuitBreakerOptions
+  ) {
+    this.breaker = new CircuitBreaker(name, breaker);
+  }
+
+  /**
+   * Run an upstream call, retrying transient failures
+   * @param operation Upstream call
+   * @param signal Aborts pending retries
+   * @returns Result of the first successful attempt
+   */
+  async run<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+
+      try {
+        return await this.breaker.execute(operation);
+      } catch (error) {
+        if (attempt >= this.retry.retries || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const delay = this.getBackoffDelay(attempt);
+        console.warn(`Retrying ${this.name} call in ${delay}ms (attempt ${attempt + 2}/${this.retry.retries + 1}):`, error instanceof Error ? error.message : error);
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Full jitter: a random delay up to the exponential backoff cap
+   */
+  private getBackoffDelay(attempt: number): number {
+    const cap = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * cap);
+  }
+}
+
+/**
+ * Build the retry and circuit breaker policy for one store from the config
+ */
+export function createResiliencePolicy(name: string, settings: AppConfig['resilience'] = appConfig.resilience): ResiliencePolicy {
+  return new ResiliencePolicy(name, {
+    retries: settings.retries,
+    baseDelayMs: settings.retryBaseDelayMs,
+    maxDelayMs: settings.retryMaxDelayMs
+  }, {
+    failureThreshold: settings.breakerThreshold,
+    resetTimeoutMs: settings.breakerResetMs
+  });
+}
+
+export const storePolicies = {
+  'google-play': createResiliencePolicy('Google Play'),
+  'app-store': createResiliencePolicy('App Store')
+};
@@ -0,0 +1,214 @@
+import { ReviewData } from './reviewService';
+import { AppStoreReviewData } from './appStoreService';
+import { sentimentAnalyzer, SentimentResult, SentimentReview, WithSentiment } from './sentiment';
+import { languageDetector } from './language';
+
+export type ColumnType = 'text' | 'number' | 'date';
+
+/** Optional per-review annotations requested with `include` */
+export type IncludeOption = 'sentiment';
+export const INCLUDE_OPTIONS: IncludeOption[] = ['sentiment'];
+
+export interface ReviewColumn<T> {
+  /** Field of the review type the column reads */
+  key: string;
+  /** Column title written to exports */
+  header: string;
+  type: ColumnType;
+  /** Column width used by spreadsheet exports */
+  width: number;
+  value: (review: T) => string | number | Date | null | undefined;
+  /** Annotation the column is computed from, instead of a field of the review */
+  source?: IncludeOption;
+}
+
+const sentimentCache = new WeakMap<object, SentimentResult>();
+
+/**
+ * Sentiment of a review, reusing an existing annotation or earlier result
+ */
+function sentimentOf(review: SentimentReview): SentimentResult {
+  const annotated = (review as Partial<WithSentiment<SentimentReview>>).sentiment;
+  if (annotated) return annotated;
+
+  let result = sentimentCache.get(review);
+  if (!result) {
+    result = sentimentAnalyzer.analyzeReview(review);
+    sentimentCache.set(review, result);
+  }
+  return result;
+}
+
+function sentimentColumns<T extends SentimentReview>(): ReviewColumn<T>[] {
+  return [
+    { key: 'sentiment', header: 'sentiment', type: 'text', width: 10, source: 'sentiment', value: review => sentimentOf(review).label },
+    { key: 'sentimentScore', header: 'sentimentScore', type: 'number', width: 14, source: 'sentiment', value: review => sentimentOf(review).polarity },
+    { key: 'sentimentMismatch', header: 'sentimentMismatch', type: 'text', width: 18, source: 'sentiment', value: review => String(sentimentOf(review).mismatch) }
+  ];
+}
+
+export const GOOGLE_PLAY_COLUMNS: ReviewColumn<ReviewData>[] = [
+  { key: 'id', header: 'id', type: 'text', width: 40, value: review => review.id },
+  { key: 'userName', header: 'userName', type: 'text', width: 24, value: review => review.userName },
+  { key: 'userImage', header: 'userImage', type: 'text', width: 40, value: review => review.userImage },
+  { key: 'text', header: 'content', type: 'text', width: 80, value: review => review.text },
+  { key: 'score', header: 'score', type: 'number', width: 8, value: review => review.score },
+  { key: 'scoreText', header: 'scoreText', type: 'text', width: 10, value: review => review.scoreText },
+  { key: 'date', header: 'date', type: 'date', width: 20, value: review => review.date },
+  { key: 'thumbsUp', header: 'thumbsUp', type: 'number', width: 10, value: review => review.thumbsUp },
+  { key: 'version', header: 'version', type: 'text', width: 14, value: review => review.version || '' },
+  { key: 'replyText', header: 'replyText', type: 'text', width: 60, value: review => review.replyText },
+  { key: 'replyDate', header: 'replyDate', type: 'date', width: 20, value: review => review.replyDate },
+  { key: 'url', header: 'url', type: 'text', width: 40, value: review => review.url },
+  { key: 'country', header: 'country', type: 'text', width: 8, value: review => review.country },
+  { key: 'detectedLanguage', header: 'detectedLanguage', type: 'text', width: 16, value: review => languageDetector.languageOf(review) },
+  ...sentimentColumns<ReviewData>()
+];
+
+export const APP_STORE_COLUMNS: ReviewColumn<AppStoreReviewData>[] = [
+  { key: 'id', header: 'id', type: 'text', width: 16, value: review => review.id },
+  { key: 'userName', header: 'userName', type: 'text', width: 24, value: review => review.userName },
+  { key: 'userUrl', header: 'userUrl', type: 'text', width: 40, value: review => review.userUrl },
+  { key: 'title', header: 'title', type: 'text', width: 30, value: review => review.title },
+  { key: 'text', header: 'content', type: 'text', width: 80, value: review => review.text },
+  { key: 'score', header: 'score', type: 'number', width: 8, value: review => review.score },
+  { key: 'version', header: 'version', type: 'text', width: 14, value: review => review.version },
+  { key: 'date', header: 'date', type: 'date', width: 20, value: review => review.date },
+  { key: 'url', header: 'url', type: 'text', width: 40, value: review => review.url },
+  { key: 'country', header: 'country', type: 'text', width: 8, value: review => review.country },
+  { key: 'detectedLanguage', header: 'detectedLanguage', type: 'text', width: 16, value: review => languageDetector.languageOf(review) },
+  ...sentimentColumns<AppStoreReviewData>()
+];
+
+/** Columns exported when the caller does not pass `columns` */
+export const DEFAULT_GOOGLE_PLAY_COLUMNS = ['id', 'userName', 'text', 'score', 'date', 'thumbsUp', 'version'];
+export const DEFAULT_APP_STORE_COLUMNS = ['id', 'userName', 'title', 'text', 'score', 'version', 'date'];
+
+/**
+ * Parse a field list given as a comma-separated string or an array
+ * @param value Raw request value
+ * @returns Trimmed field names, or null when the parameter is absent
+ */
+export function parseFieldList(value: unknown): string[] | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map(item => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Resolve requested column names (field key or header) to column definitions,
+ * keeping the caller's order
+ * @param available Columns the review type supports
+ * @param requested Raw `columns` parameter
+ * @param defaults Keys used when no columns are requested
+ * @returns Columns, or an error message naming the unknown columns
+ */
+export function resolveColumns<T>(
+  available: ReviewColumn<T>[],
+  requested: unknown,
+  defaults: string[]
+): { columns?: ReviewColumn<T>[]; error?: string } {
+  const names = parseFieldList(requested) || defaults;
+  const columns: ReviewColumn<T>[] = [];
+  const unknown: string[] = [];
+
+  for (const name of names) {
+    const column = available.find(candidate => candidate.key === name || candidate.header === name);
+    if (column) {
+      columns.push(column);
+    } else {
+      unknown.push(name);
+    }
+  }
+
+  if (unknown.length > 0 || columns.length === 0) {
+    return {
+      error: `Unknown columns: ${unknown.join(', ') || '(none given)'}. Available columns: ${available.map(column => column.key).join(', ')}`
+    };
+  }
+
+  return { columns };
+}
+
+/**
+ * Project objects to the requested fields, in the requested order
+ * @param items Objects to project
+ * @param fields Field names to keep
+ * @returns Projected objects
+ */
+export function pickFields<T extends object>(items: T[], fields: string[]): Record<string, unknown>[] {
+  return items.map(item => {
+    const projected: Record<string, unknown> = {};
+    for (const field of fields) {
+      projected[field] = (item as Record<string, unknown>)[field];
+    }
+    return projected;
+  });
+}
+
+/**
+ * Validate a `fields` projection against the allowed field names
+ * @param value Raw `fields` parameter
+ * @param allowed Field names of the response type
+ * @returns Field list (null when absent) or an error message
+ */
+export function parseFieldsProjection(value: unknown, allowed: string[]): { fields?: string[] | null; error?: string } {
+  const fields = parseFieldList(value);
+  if (!fields) return { fields: null };
+
+  const unknown = fields.filter(field => !allowed.includes(field));
+  if (unknown.length > 0) {
+    return { error: `Unknown fields: ${unknown.join(', ')}. Available fields: ${allowed.join(', ')}` };
+  }
+
+  return { fields };
+}
+
+/**
+ * Field names of review objects behind a column list, leaving out computed columns
+ */
+export function columnFields<T>(columns: ReviewColumn<T>[]): string[] {
+  return columns.filter(column => !column.source).map(column => column.key);
+}
+
+/**
+ * Validate an `include` parameter
+ * @param value Raw `include` parameter
+ * @returns Requested annotations (empty when absent) or an error message
+ */
+export function parseIncludeOptions(value: unknown): { include?: IncludeOption[]; error?: string } {
+  const names = parseFieldList(value) || [];
+
+  const unknown = names.filter(name => !INCLUDE_OPTIONS.includes(name as IncludeOption));
+  if (unknown.length > 0) {
+    return { error: `Unknown include options: ${unknown.join(', ')}. Available options: ${INCLUDE_OPTIONS.join(', ')}` };
+  }
+
+  return { include: names as IncludeOption[] };
+}
+
+/**
+ * Add the requested annotations to reviews
+ * @param reviews Reviews to annotate
+ * @param include Requested annotations
+ * @param language Preferred language for text analysis
+ * @returns Annotated copies, or the reviews themselves when nothing is requested
+ */
+export function applyIncludes<T extends SentimentReview>(reviews: T[], include: IncludeOption[], language?: string): T[] {
+  return include.includes('sentiment') ? sentimentAnalyzer.annotate(reviews, language) : reviews;
+}
+
+/**
+ * Annotations needed to fill the given columns
+ */
+export function columnIncludes<T>(columns: ReviewColumn<T>[]): IncludeOption[] {
+  return [...new Set(columns.flatMap(column => column.source ? [column.source] : []))];
+}
+
+/**
+ * Response fields holding the values of the given columns, for JSON output
+ */
+export function columnProjection<T>(columns: ReviewColumn<T>[]): string[] {
+  return [...new Set(columns.map(column => column.source || column.key))];
+}
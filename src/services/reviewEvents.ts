@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+import { UnifiedReview } from './storeAdapter';
+import { SCORE_BANDS } from './scoreBands';
+
+export type ReviewEventType = 'review.created' | 'review.low_score' | 'review.replied';
+export const REVIEW_EVENT_TYPES: ReviewEventType[] = ['review.created', 'review.low_score', 'review.replied'];
+
+/** What noticed the change: a watch poll or a sync of the local review database */
+export type ReviewEventSource = 'watch' | 'sync';
+
+export interface ReviewEvent {
+  id: string;
+  type: ReviewEventType;
+  source: ReviewEventSource;
+  occurredAt: string;
+  review: UnifiedReview;
+}
+
+export type ReviewEventListener = (events: ReviewEvent[]) => void;
+
+/**
+ * In-process channel between the services that discover review changes and
+ * the ones that react to them
+ */
+export class ReviewEventBus {
+  private readonly listeners = new Set<ReviewEventListener>();
+
+  /**
+   * Listen for review events
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: ReviewEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Events for newly discovered reviews: `review.created`, plus `review.low_score` for the low score band
+   */
+  publishCreated(source: ReviewEventSource, reviews: UnifiedReview[]): void {
+    this.publish(reviews.flatMap(review => [
+      this.createEvent('review.created', source, review),
+      ...(SCORE_BANDS.low.includes(review.score) ? [this.createEvent('review.low_score', source, review)] : [])
+    ]));
+  }
+
+  /**
+   * Events for reviews that received a developer reply since they were last seen
+   */
+  publishReplied(source: ReviewEventSource, reviews: UnifiedReview[]): void {
+    this.publish(reviews.map(review => this.createEvent('review.replied', source, review)));
+  }
+
+  private publish(events: ReviewEvent[]): void {
+    if (events.length === 0) return;
+
+    for (const listener of this.listeners) {
+      try {
+        listener(events);
+      } catch (error) {
+        console.error('Error in review event listener:', error);
+      }
+    }
+  }
+
+  private createEvent(type: ReviewEventType, source: ReviewEventSource, review: UnifiedReview): ReviewEvent {
+    return {
+      id: randomUUID(),
+      type,
+      source,
+      occurredAt: new Date().toISOString(),
+      review
+    };
+  }
+}
+
+/**
+ * Whether a review gained a developer reply, or its reply changed, compared to an earlier copy
+ */
+export function hasNewReply(previous: UnifiedReview, current: UnifiedReview): boolean {
+  return !!current.reply?.text && current.reply.text !== previous.reply?.text;
+}
+
+export const reviewEvents = new ReviewEventBus();
@@ -0,0 +1,227 @@
+import { RE2 } from 're2-wasm';
+import { languageDetector } from './language';
+
+export interface ReviewFilter {
+  minScore?: number;
+  maxScore?: number;
+  /** Reviews written at or after this time (ISO 8601) */
+  since?: string;
+  /** Reviews written before this time (ISO 8601) */
+  until?: string;
+  /** App versions to keep */
+  versions?: string[];
+  /** Detected languages to keep */
+  languages?: string[];
+  /** Case-insensitive substring of the review title or text */
+  text?: string;
+  /** Case-insensitive RE2 regular expression matched against the review title or text */
+  textRegex?: string;
+  hasReply?: boolean;
+  minThumbsUp?: number;
+}
+
+export type ReviewFilterName = keyof ReviewFilter;
+
+export interface FilterStats {
+  /** Reviews fetched from the store */
+  scannedCount: number;
+  /** Reviews that passed the filter */
+  matchedCount: number;
+}
+
+/**
+ * Why a multi-page fetch stopped: it passed the `since` cutoff, the store ran out of
+ * pages, `num` reviews were scanned, or a page failed
+ */
+export type FetchStopReason = 'cutoff' | 'exhausted' | 'limit' | 'failed';
+
+/**
+ * The parts of a review a filter looks at; each store maps its reviews to this shape
+ */
+export interface FilterableReview {
+  score: number;
+  date: string | null;
+  version: string | null;
+  text: string;
+  /** Null when the store does not report replies */
+  hasReply: boolean | null;
+  /** Null when the store does not report helpful votes */
+  thumbsUp: number | null;
+  /** Detected language, null when it could not be detected */
+  language: string | null;
+}
+
+// RE2 matches in linear time, so the length only bounds the size of the compiled pattern
+const MAX_REGEX_LENGTH = 200;
+
+/**
+ * Validate filter query parameters
+ * @param query Query parameters: minScore, maxScore, since, until, version, language, text, textRegex, hasReply, minThumbsUp
+ * @param unsupported Filters the store cannot evaluate
+ * @returns Filter (null when no filter parameter is set) or an error message
+ */
+export function parseReviewFilter(
+  query: Record<string, unknown>,
+  unsupported: ReviewFilterName[] = []
+): { filter?: ReviewFilter | null; error?: string } {
+  const filter: ReviewFilter = {};
+  const single = (name: string): string | undefined => {
+    const value = query[name];
+    return value === undefined || value === '' ? undefined : String(Array.isArray(value) ? value[0] : value);
+  };
+
+  for (const name of ['minScore', 'maxScore'] as const) {
+    const value = single(name);
+    if (value === undefined) continue;
+
+    const score = Number(value);
+    if (!Number.isInteger(score) || score < 1 || score > 5) {
+      return { error: `${name} must be a whole number from 1 to 5` };
+    }
+    filter[name] = score;
+  }
+
+  if (filter.minScore !== undefined && filter.maxScore !== undefined && filter.minScore > filter.maxScore) {
+    return { error: 'minScore cannot be greater than maxScore' };
+  }
+
+  for (const name of ['since', 'until'] as const) {
+    const value = single(name);
+    if (value === undefined) continue;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { error: `${name} must be an ISO 8601 date or time` };
+    }
+    filter[name] = date.toISOString();
+  }
+
+  if (filter.since && filter.until && filter.since >= filter.until) {
+    return { error: 'since must be earlier than until' };
+  }
+
+  const version = single('version');
+  if (version !== undefined) {
+    filter.versions = version.split(',').map(item => item.trim()).filter(Boolean);
+  }
+
+  const language = single('language');
+  if (language !== undefined) {
+    const languages = [...new Set(language.split(',').map(item => item.trim().toLowerCase()).filter(Boolean))];
+    const known = languageDetector.languages();
+    const unknown = languages.filter(item => !known.includes(item));
+    if (unknown.length > 0) {
+      return { error: `Unknown languages: ${unknown.join(', ')}. Detected languages: ${known.join(', ')}` };
+    }
+    filter.languages = languages;
+  }
+
+  const text = single('text');
+  if (text !== undefined) filter.text = text;
+
+  const textRegex = single('textRegex');
+  if (textRegex !== undefined) {
+    if (textRegex.length > MAX_REGEX_LENGTH) {
+      return { error: `textRegex cannot be longer than ${MAX_REGEX_LENGTH} characters` };
+    }
+    try {
+      // User patterns run on the shared event loop, so they go through RE2, which cannot backtrack
+      new RE2(textRegex, 'iu');
+    } catch (error) {
+      return { error: `textRegex is not a valid regular expression: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+    filter.textRegex = textRegex;
+  }
+
+  const hasReply = single('hasReply');
+  if (hasReply !== undefined) {
+    if (hasReply !== 'true' && hasReply !== 'false') {
+      return { error: 'hasReply must be true or false' };
+    }
+    filter.hasReply = hasReply === 'true';
+  }
+
+  const minThumbsUp = single('minThumbsUp');
+  if (minThumbsUp !== undefined) {
+    const count = Number(minThumbsUp);
+    if (!Number.isInteger(count) || count < 0) {
+      return { error: 'minThumbsUp must be a whole number of 0 or more' };
+    }
+    filter.minThumbsUp = count;
+  }
+
+  const used = (Object.keys(filter) as ReviewFilterName[]).filter(name => unsupported.includes(name));
+  if (used.length > 0) {
+    return { error: `Filters not available for this store: ${used.join(', ')}` };
+  }
+
+  return { filter: Object.keys(filter).length > 0 ? filter : null };
+}
+
+/**
+ * Build a predicate for a filter, compiling its regular expression once
+ * @param filter Review filter
+ * @returns Function telling whether a review passes the filter
+ */
+export function createReviewMatcher(filter: ReviewFilter): (review: FilterableReview) => boolean {
+  const { minScore, maxScore, since, until, versions, languages, text, textRegex, hasReply, minThumbsUp } = filter;
+  const needle = text?.toLocaleLowerCase();
+  const pattern = textRegex ? new RE2(textRegex, 'iu') : null;
+  const sinceTime = since ? Date.parse(since) : null;
+  const untilTime = until ? Date.parse(until) : null;
+
+  return review => {
+    if (minScore !== undefined && review.score < minScore) return false;
+    if (maxScore !== undefined && review.score > maxScore) return false;
+
+    if (sinceTime !== null || untilTime !== null) {
+      const time = review.date ? Date.parse(review.date) : NaN;
+      if (isNaN(time)) return false;
+      if (sinceTime !== null && time < sinceTime) return false;
+      if (untilTime !== null && time >= untilTime) return false;
+    }
+
+    if (versions && !(review.version && versions.includes(review.version))) return false;
+    if (languages && !(review.language && languages.includes(review.language))) return false;
+    if (needle !== undefined && !review.text.toLocaleLowerCase().includes(needle)) return false;
+    if (pattern && !pattern.test(review.text)) return false;
+    if (hasReply !== undefined && review.hasReply !== hasReply) return false;
+    if (minThumbsUp !== undefined && (review.thumbsUp ?? 0) < minThumbsUp) return false;
+
+    return true;
+  };
+}
+
+/**
+ * Keep the reviews that pass a filter
+ * @param reviews Reviews in any store's shape
+ * @param filter Review filter
+ * @param toFilterable Maps a review to the fields the filter reads
+ * @returns Matching reviews with scanned and matched counts
+ */
+export function applyReviewFilter<T>(
+  reviews: T[],
+  filter: ReviewFilter,
+  toFilterable: (review: T) => FilterableReview
+): { reviews: T[]; filterStats: FilterStats } {
+  const matches = createReviewMatcher(filter);
+  const matched = reviews.filter(review => matches(toFilterable(review)));
+
+  return {
+    reviews: matched,
+    filterStats: { scannedCount: reviews.length, matchedCount: matched.length }
+  };
+}
+
+/**
+ * Whether a page of a newest-first fetch reached reviews older than the filter's `since`,
+ * so later pages cannot match
+ * @param dates Review dates of the page
+ * @param filter Review filter
+ */
+export function reachesCutoff(dates: (string | null | undefined)[], filter?: ReviewFilter | null): boolean {
+  if (!filter?.since) return false;
+
+  const cutoff = Date.parse(filter.since);
+  return dates.some(date => !!date && Date.parse(date) < cutoff);
+}
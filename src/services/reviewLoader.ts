@@ -0,0 +1,139 @@
+import { getStoreAdapter } from './adapters';
+import { ReviewStore } from './reviewStore';
+import { Platform, StoreSort, UnifiedReview } from './storeAdapter';
+import { PartialResult } from './resilience';
+import { AggregationSummary, CountryAggregator, countryAggregator, parseCountries } from './countryAggregator';
+import { AppConfig, appConfig } from '../config';
+
+export type ReviewSource = 'live' | 'stored';
+export const REVIEW_SOURCES: ReviewSource[] = ['live', 'stored'];
+
+/**
+ * Which reviews an analysis runs over
+ */
+export interface ReviewSelection {
+  /** Fetch from the store (`live`) or read the local review database (`stored`) */
+  source: ReviewSource;
+  /** Maximum number of reviews, newest first for stored reviews */
+  num: number;
+  lang: string;
+  country: string;
+  /** Storefronts to combine instead of `country`; `num` applies to each */
+  countries: string[] | null;
+  sort: StoreSort;
+  bypassCache?: boolean;
+}
+
+export interface LoadedReviews {
+  reviews: UnifiedReview[];
+  source: ReviewSource;
+  /** Present when some pages could not be fetched */
+  partial: PartialResult | null;
+  /** Per-country counts and failures of a live `countries` fetch */
+  aggregation: AggregationSummary | null;
+}
+
+/**
+ * Loads the reviews analysis endpoints work on, either live from a store
+ * adapter or from the local review database filled by syncs
+ */
+export class ReviewLoader {
+  static readonly DEFAULT_NUM = 500;
+
+  constructor(
+    private readonly store = new ReviewStore(),
+    private readonly config: AppConfig = appConfig,
+    private readonly aggregator: CountryAggregator = countryAggregator
+  ) {}
+
+  /**
+   * Validate the review selection parameters of a request
+   * @param platform Store platform, used to check the sort order
+   * @param query Query parameters: source, num, lang, country, countries, sort
+   * @returns Review selection or an error message
+   */
+  parseSelection(platform: Platform, query: Record<string, unknown>): { selection?: ReviewSelection; error?: string } {
+    const {
+      source = 'live',
+      num = String(ReviewLoader.DEFAULT_NUM),
+      lang = this.config.defaults.lang,
+      country = this.config.defaults.country,
+      sort = 'newest'
+    } = query;
+
+    if (!REVIEW_SOURCES.includes(source as ReviewSource)) {
+      return { error: `Source must be one of: ${REVIEW_SOURCES.join(', ')}` };
+    }
+
+    const { supportedSorts } = getStoreAdapter(platform);
+    if (!supportedSorts.includes(sort as StoreSort)) {
+      return { error: `Sort must be one of: ${supportedSorts.join(', ')}` };
+    }
+
+    const { countries, error: countriesError } = parseCountries(query.countries, this.config.limits.maxCountries);
+    if (countriesError) {
+      return { error: countriesError };
+    }
+
+    return {
+      selection: {
+        source: source as ReviewSource,
+        num: Math.max(parseInt(num as string) || ReviewLoader.DEFAULT_NUM, 1),
+        lang: String(lang),
+        country: String(country),
+        countries: countries || null,
+        sort: sort as StoreSort
+      }
+    };
+  }
+
+  /**
+   * Load the selected reviews of an app
+   * @param platform Store platform
+   * @param appId App ID
+   * @param selection Review selection
+   * @param signal Cancels fetching of further pages
+   * @returns Reviews with the partial-result report of live fetches
+   */
+  async load(platform: Platform, appId: string, selection: ReviewSelection, signal?: AbortSignal): Promise<LoadedReviews> {
+    const { countries } = selection;
+
+    if (selection.source === 'stored') {
+      const reviews = countries
+        ? this.store.list(platform, appId).filter(review => countries.includes(review.country)).slice(0, selection.num)
+        : this.store.list(platform, appId, { limit: selection.num });
+
+      return { reviews, source: 'stored', partial: null, aggregation: null };
+    }
+
+    const adapter = getStoreAdapter(platform);
+    const query = {
+      appId,
+      lang: selection.lang,
+      sort: selection.sort,
+      num: selection.num,
+      bypassCache: selection.bypassCache,
+      signal
+    };
+
+    if (countries) {
+      const { reviews, scannedCount, ...aggregation } = await this.aggregator.aggregate(countries, async function* (country, report) {
+        const result = await adapter.fetchReviews({ ...query, country });
+        report.scannedCount = result.reviews.length;
+        report.failedPages = result.partial?.failedPages || [];
+        yield result.reviews;
+      }, signal);
+
+      return { reviews, source: 'live', partial: null, aggregation };
+    }
+
+    const result = await adapter.fetchReviews({ ...query, country: selection.country });
+
+    return {
+      reviews: result.reviews,
+      source: 'live',
+      partial: result.partial || null,
+      aggregation: null
+    };
+  }
+}
@@ -1,4 +1,9 @@
 import gplay from 'google-play-scraper';
+import { UpstreamCache, CacheReadOptions, upstreamCache } from './cache';
+import { AppConfig, appConfig } from '../config';
+import { ResiliencePolicy, FailedPage, PartialResult, storePolicies, sleep } from './resilience';
+import { ReviewFilter, FilterStats, FilterableReview, FetchStopReason, applyReviewFilter, reachesCutoff } from './reviewFilter';
+import { languageDetector } from './language';
 
 export interface ReviewData {
   id: string;
@@ -13,6 +18,10 @@ export interface ReviewData {
   replyText?: string;
   version?: string;
   thumbsUp: number;
+  /** Storefront the review was fetched from; set when several countries are combined */
+  country?: string;
+  /** Language the review is written in, null when it could not be detected */
+  detectedLanguage: string | null;
 }
 
 export interface ReviewOptions {
@@ -20,18 +29,42 @@ export interface ReviewOptions {
   lang?: string;
   country?: string;
   sort?: 'newest' | 'rating' | 'helpfulness';
+  /** Reviews to scan; Infinity pages until the `filter.since` cutoff or the last page */
   num?: number;
   paginate?: boolean;
   nextPaginationToken?: string;
+  signal?: AbortSignal;
+  onProgress?: (fetchedCount: number) => void;
+  bypassCache?: boolean;
+  /** Called when a batch fails after all retries; the stream then ends instead of throwing */
+  onPageFailed?: (failure: FailedPage) => void;
+  /**
+   * Applied to every fetched batch; `num` counts reviews scanned, not matched.
+   * With the 'newest' sort, fetching stops after the batch that passes `filter.since`.
+   */
+  filter?: ReviewFilter;
+  /** Called once a multi-batch stream has finished on its own */
+  onStop?: (reason: FetchStopReason) => void;
 }
 
 export interface ReviewResponse {
   reviews: ReviewData[];
   nextPaginationToken?: string;
   totalCount?: number;
+  /** Present when a multi-batch fetch stopped early because a batch failed */
+  partial?: PartialResult;
+  /** Present when a filter was applied */
+  filterStats?: FilterStats;
+  stopReason?: FetchStopReason;
 }
 
 export class ReviewService {
+  constructor(
+    private readonly cache: UpstreamCache = upstreamCache,
+    private readonly config: AppConfig = appConfig,
+    private readonly resilience: ResiliencePolicy = storePolicies['google-play']
+  ) {}
+
   /**
    * Get reviews for a specific app from Google Play Store
    * @param options Review fetching options
@@ -39,15 +72,25 @@ export class ReviewService {
    */
   async getReviews(options: ReviewOptions): Promise<ReviewResponse> {
     try {
-      const { num = 100 } = options;
+      const { num = 100, sort = 'newest', onProgress, filter } = options;
 
       // For large datasets, fetch in batches
-      if (num > 200) {
-        return this.fetchLargeDataset(options);
+      if (num > this.config.limits.maxReviewsPerRequest) {
+        return await this.fetchLargeDataset(options);
       }
 
       // For smaller datasets, use single batch
-      return this.fetchSingleBatch(options);
+      const result = await this.fetchSingleBatch(options);
+      onProgress?.(result.reviews.length);
+
+      const stopReason: FetchStopReason = sort === 'newest' && reachesCutoff(result.reviews.map(review => review.date), filter)
+        ? 'cutoff'
+        : result.nextPaginationToken ? 'limit' : 'exhausted';
+
+      if (!filter) return { ...result, stopReason };
+
+      const filtered = applyReviewFilter(result.reviews, filter, this.toFilterable);
+      return { ...result, ...filtered, totalCount: filtered.reviews.length, stopReason };
 
     } catch (error) {
       console.error('Error fetching reviews:', error);
@@ -56,71 +99,147 @@ export class ReviewService {
   }
 
   /**
-   * Fetch large datasets by making multiple paginated requests
+   * Fetch large datasets by making multiple paginated requests.
+   * A batch that keeps failing ends the fetch with the reviews collected so far.
    * @param options Review fetching options
    * @returns Promise<ReviewResponse>
    */
   private async fetchLargeDataset(options: ReviewOptions): Promise<ReviewResponse> {
+    const allReviews: ReviewData[] = [];
+    const failedPages: FailedPage[] = [];
+    let nextToken: string | undefined;
+    let lastGoodToken: string | null = null;
+    let scannedCount = 0;
+    let stopReason: FetchStopReason | undefined;
+
+    for await (const batch of this.streamReviews({
+      ...options,
+      onPageFailed: failure => failedPages.push(failure),
+      onStop: reason => { stopReason = reason; }
+    })) {
+      allReviews.push(...batch.reviews);
+      scannedCount += batch.filterStats?.scannedCount ?? batch.reviews.length;
+      nextToken = batch.nextPaginationToken;
+      lastGoodToken = nextToken || null;
+    }
+
+    console.log(`Successfully fetched ${allReviews.length} reviews`);
+
+    return {
+      reviews: allReviews,
+      nextPaginationToken: nextToken,
+      totalCount: allReviews.length,
+      stopReason,
+      ...(options.filter && { filterStats: { scannedCount, matchedCount: allReviews.length } }),
+      ...(failedPages.length > 0 && { partial: { failedPages, lastGoodToken } })
+    };
+  }
+
+  /**
+   * Yield reviews batch by batch as they are fetched, without keeping them in memory.
+   * Batches are filtered when `filter` is set, with their counts in `filterStats`.
+   * @param options Review fetching options
+   * @returns Async generator of review batches
+   */
+  async *streamReviews(options: ReviewOptions): AsyncGenerator<ReviewResponse> {
     const {
       appId,
-      lang = 'tr',
-      country = 'tr',
+      lang = this.config.defaults.lang,
+      country = this.config.defaults.country,
       sort = 'newest',
-      num = 100
+      num = 100,
+      signal,
+      onProgress,
+      bypassCache,
+      onPageFailed,
+      filter,
+      onStop
     } = options;
 
-    const allReviews: ReviewData[] = [];
     let nextToken: string | undefined;
     let fetchedCount = 0;
-    const batchSize = 200; // Maximum per request
+    let batchNumber = 0;
+    let stopReason: FetchStopReason = 'limit';
+    const batchSize = this.config.limits.maxReviewsPerRequest;
     
-    console.log(`Fetching ${num} reviews in batches of ${batchSize}...`);
+    console.log(`Fetching ${Number.isFinite(num) ? num : 'all'} reviews in batches of ${batchSize}...`);
 
     while (fetchedCount < num) {
+      signal?.throwIfAborted();
+
       const remainingCount = num - fetchedCount;
       const currentBatchSize = Math.min(remainingCount, batchSize);
 
+      batchNumber++;
+
       console.log(`Fetching batch: ${fetchedCount + 1} to ${fetchedCount + currentBatchSize}`);
 
-      // Call the base reviews method directly, bypassing the large dataset check
-      const batchResult = await this.fetchSingleBatch({
-        appId,
-        lang,
-        country,
-        sort,
-        num: currentBatchSize,
-        paginate: true,
-        nextPaginationToken: nextToken
-      });
+      let batchResult: ReviewResponse;
+      try {
+        // Call the base reviews method directly, bypassing the large dataset check
+        batchResult = await this.fetchSingleBatch({
+          appId,
+          lang,
+          country,
+          sort,
+          num: currentBatchSize,
+          paginate: true,
+          nextPaginationToken: nextToken,
+          signal,
+          bypassCache
+        });
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (!onPageFailed) throw error;
+
+        // Later batches need this batch's token, so the fetch cannot go on
+        console.error(`Batch ${batchNumber} failed after retries, stopping with ${fetchedCount} reviews:`, error);
+        onPageFailed({
+          page: batchNumber,
+          cursor: nextToken || null,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        stopReason = 'failed';
+        break;
+      }
 
       if (batchResult.reviews.length === 0) {
         console.log('No more reviews available - API returned empty batch');
+        stopReason = 'exhausted';
         break;
       }
 
-      allReviews.push(...batchResult.reviews);
       fetchedCount += batchResult.reviews.length;
       nextToken = batchResult.nextPaginationToken;
+      onProgress?.(fetchedCount);
+
+      console.log(`✅ Batch completed: ${batchResult.reviews.length} reviews fetched, Total: ${fetchedCount}`);
 
-      console.log(`✅ Batch completed: ${batchResult.reviews.length} reviews fetched, Total: ${allReviews.length}`);
+      const passedCutoff = sort === 'newest' && reachesCutoff(batchResult.reviews.map(review => review.date), filter);
+
+      yield filter
+        ? { ...batchResult, ...applyReviewFilter(batchResult.reviews, filter, this.toFilterable) }
+        : batchResult;
+
+      // Newest first, so every later batch is older still
+      if (passedCutoff) {
+        console.log(`🏁 Reached reviews older than ${filter?.since}`);
+        stopReason = 'cutoff';
+        break;
+      }
 
       // If no more pagination token, we've reached the end
       if (!nextToken) {
         console.log('🏁 Reached end of available reviews - No more pagination tokens available');
+        stopReason = 'exhausted';
         break;
       }
 
       // Add a small delay to be respectful to the API
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await sleep(this.config.delays.googlePlayBatchMs, signal);
     }
 
-    console.log(`Successfully fetched ${allReviews.length} reviews`);
-
-    return {
-      reviews: allReviews,
-      nextPaginationToken: nextToken,
-      totalCount: allReviews.length
-    };
+    onStop?.(stopReason);
   }
 
   /**
@@ -128,16 +247,18 @@ export class ReviewService {
    * @param options Review fetching options
    * @returns Promise<ReviewResponse>
    */
-  private async fetchSingleBatch(options: ReviewOptions): Promise<ReviewResponse> {
+  async fetchSingleBatch(options: ReviewOptions): Promise<ReviewResponse> {
     try {
       const {
         appId,
-        lang = 'tr',
-        country = 'tr',
+        lang = this.config.defaults.lang,
+        country = this.config.defaults.country,
         sort = 'newest',
         num = 100,
         paginate = true,
-        nextPaginationToken
+        nextPaginationToken,
+        signal,
+        bypassCache
       } = options;
 
       const reviewOptions: any = {
@@ -145,7 +266,7 @@ export class ReviewService {
         lang,
         country,
         sort: this.mapSortOption(sort),
-        num: Math.min(num, 200), // Google Play API limitation per request
+        num: Math.min(num, this.config.limits.maxReviewsPerRequest), // Google Play API limitation per request
         paginate
       };
 
@@ -153,13 +274,15 @@ export class ReviewService {
         reviewOptions.nextPaginationToken = nextPaginationToken;
       }
 
-      const result = await gplay.reviews(reviewOptions);
+      return await this.cache.wrap('reviews', ['google-play', appId, lang, country, sort, reviewOptions.num, paginate, nextPaginationToken], async () => {
+        const result = await this.resilience.run(() => gplay.reviews(reviewOptions), signal);
 
-      return {
-        reviews: result.data.map(this.mapReviewData),
-        nextPaginationToken: result.nextPaginationToken,
-        totalCount: result.data.length
-      };
+        return {
+          reviews: result.data.map(this.mapReviewData),
+          nextPaginationToken: result.nextPaginationToken,
+          totalCount: result.data.length
+        };
+      }, { bypassCache });
 
     } catch (error) {
       console.error('Error fetching single batch:', error);
@@ -170,50 +293,52 @@ export class ReviewService {
   /**
    * Get app information
    * @param appId Google Play Store app ID
-   * @param options Additional options
+   * @param options Cache options
    * @returns Promise with app information
    */
-  async getAppInfo(appId: string, lang = 'tr', country = 'tr') {
+  async getAppInfo(appId: string, lang = this.config.defaults.lang, country = this.config.defaults.country, options: CacheReadOptions = {}) {
     try {
-      const appInfo = await gplay.app({
-        appId,
-        lang,
-        country
-      });
-
-      return {
-        appId: appInfo.appId,
-        title: appInfo.title,
-        description: appInfo.description,
-        descriptionHTML: appInfo.descriptionHTML,
-        summary: appInfo.summary,
-        installs: appInfo.installs,
-        minInstalls: appInfo.minInstalls,
-        maxInstalls: appInfo.maxInstalls,
-        score: appInfo.score,
-        scoreText: appInfo.scoreText,
-        ratings: appInfo.ratings,
-        reviews: appInfo.reviews,
-        histogram: appInfo.histogram,
-        price: appInfo.price,
-        free: appInfo.free,
-        currency: appInfo.currency,
-        priceText: appInfo.priceText,
-        developer: appInfo.developer,
-        developerId: appInfo.developerId,
-        developerEmail: appInfo.developerEmail,
-        developerWebsite: appInfo.developerWebsite,
-        developerAddress: appInfo.developerAddress,
-        genre: appInfo.genre,
-        genreId: appInfo.genreId,
-        contentRating: appInfo.contentRating,
-        contentRatingDescription: appInfo.contentRatingDescription,
-        released: appInfo.released,
-        updated: appInfo.updated,
-        version: appInfo.version,
-        recentChanges: appInfo.recentChanges,
-        comments: appInfo.comments
-      };
+      return await this.cache.wrap('appInfo', ['google-play', appId, lang, country], async () => {
+        const appInfo = await this.resilience.run(() => gplay.app({
+          appId,
+          lang,
+          country
+        }));
+
+        return {
+          appId: appInfo.appId,
+          title: appInfo.title,
+          description: appInfo.description,
+          descriptionHTML: appInfo.descriptionHTML,
+          summary: appInfo.summary,
+          installs: appInfo.installs,
+          minInstalls: appInfo.minInstalls,
+          maxInstalls: appInfo.maxInstalls,
+          score: appInfo.score,
+          scoreText: appInfo.scoreText,
+          ratings: appInfo.ratings,
+          reviews: appInfo.reviews,
+          histogram: appInfo.histogram,
+          price: appInfo.price,
+          free: appInfo.free,
+          currency: appInfo.currency,
+          priceText: appInfo.priceText,
+          developer: appInfo.developer,
+          developerId: appInfo.developerId,
+          developerEmail: appInfo.developerEmail,
+          developerWebsite: appInfo.developerWebsite,
+          developerAddress: appInfo.developerAddress,
+          genre: appInfo.genre,
+          genreId: appInfo.genreId,
+          contentRating: appInfo.contentRating,
+          contentRatingDescription: appInfo.contentRatingDescription,
+          released: appInfo.released,
+          updated: appInfo.updated,
+          version: appInfo.version,
+          recentChanges: appInfo.recentChanges,
+          comments: appInfo.comments
+        };
+      }, options);
 
     } catch (error) {
       console.error('Error fetching app info:', error);
@@ -227,34 +352,37 @@ export class ReviewService {
    * @param options Search options
    * @returns Promise with search results
    */
-  async searchApps(term: string, options?: { num?: number; lang?: string; country?: string; price?: 'all' | 'free' | 'paid' }) {
+  async searchApps(term: string, options?: { num?: number; lang?: string; country?: string; price?: 'all' | 'free' | 'paid' } & CacheReadOptions) {
     try {
       const {
         num = 20,
-        lang = 'tr',
-        country = 'tr',
-        price = 'all'
+        lang = this.config.defaults.lang,
+        country = this.config.defaults.country,
+        price = 'all',
+        bypassCache
       } = options || {};
 
-      const results = await gplay.search({
-        term,
-        num,
-        lang,
-        country,
-        price
-      });
-
-      return results.map((app: any) => ({
-        appId: app.appId,
-        title: app.title,
-        developer: app.developer,
-        developerId: app.developerId,
-        icon: app.icon,
-        score: app.score,
-        scoreText: app.scoreText,
-        priceText: app.priceText,
-        free: app.free
-      }));
+      return await this.cache.wrap('search', ['google-play', term, num, lang, country, price], async () => {
+        const results = await this.resilience.run(() => gplay.search({
+          term,
+          num,
+          lang,
+          country,
+          price
+        }));
+
+        return results.map((app: any) => ({
+          appId: app.appId,
+          title: app.title,
+          developer: app.developer,
+          developerId: app.developerId,
+          icon: app.icon,
+          score: app.score,
+          scoreText: app.scoreText,
+          priceText: app.priceText,
+          free: app.free
+        }));
+      }, { bypassCache });
 
     } catch (error) {
       console.error('Error searching apps:', error);
@@ -280,6 +408,21 @@ export class ReviewService {
     }
   }
 
+  /**
+   * Fields of a review that filters look at
+   */
+  private toFilterable(review: ReviewData): FilterableReview {
+    return {
+      score: review.score,
+      date: review.date || null,
+      version: review.version || null,
+      text: review.text || '',
+      hasReply: !!review.replyText,
+      thumbsUp: review.thumbsUp,
+      language: languageDetector.languageOf(review)
+    };
+  }
+
   /**
    * Map review data to our interface
    * @param review Raw review data from gplay
@@ -298,7 +441,8 @@ export class ReviewService {
       replyDate: review.replyDate,
       replyText: review.replyText,
       version: review.version,
-      thumbsUp: review.thumbsUp
+      thumbsUp: review.thumbsUp,
+      detectedLanguage: languageDetector.detectReview(review)
     };
   }
 }
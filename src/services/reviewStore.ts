@@ -0,0 +1,175 @@
+import fs from 'fs';
+import path from 'path';
+import { Platform, UnifiedReview } from './storeAdapter';
+import { hasNewReply } from './reviewEvents';
+import { languageDetector } from './language';
+
+export interface StoredReview extends UnifiedReview {
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface SyncState {
+  lastSyncedAt: string | null;
+  /** Whether a sync has paged down to the oldest review the store lists */
+  historyComplete: boolean;
+  /** Page cursor where filling in history stopped, so the next sync resumes there */
+  backfillCursor: string | null;
+}
+
+interface StoredApp {
+  platform: Platform;
+  appId: string;
+  /** Sync progress per storefront, since each storefront lists its own reviews */
+  storefronts: Record<string, SyncState>;
+  reviews: Record<string, StoredReview>;
+}
+
+export interface UpsertResult {
+  inserted: number;
+  updated: number;
+  /** Reviews that were not stored before */
+  created: StoredReview[];
+  /** Stored reviews that received a developer reply, or whose reply changed */
+  replied: StoredReview[];
+}
+
+export interface StoredReviewQuery {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * On-disk review database. Each app is kept in its own JSON file under
+ * `<dataDir>/<platform>/<appId>.json`, keyed by the store review id.
+ */
+export class ReviewStore {
+  private static readonly DEFAULT_DATA_DIR = 'data/reviews';
+
+  private readonly cache = new Map<string, StoredApp>();
+
+  constructor(private readonly dataDir = ReviewStore.DEFAULT_DATA_DIR) {}
+
+  /**
+   * Insert new reviews and refresh existing ones
+   * @param platform Store platform
+   * @param appId App ID
+   * @param reviews Normalized reviews to store
+   * @returns Number of inserted and updated reviews, with the new and newly replied ones
+   */
+  upsert(platform: Platform, appId: string, reviews: UnifiedReview[]): UpsertResult {
+    const app = this.load(platform, appId);
+    const now = new Date().toISOString();
+    const created: StoredReview[] = [];
+    const replied: StoredReview[] = [];
+    let updated = 0;
+
+    for (const review of reviews) {
+      const existing = app.reviews[review.id];
+
+      if (existing) {
+        app.reviews[review.id] = { ...review, firstSeenAt: existing.firstSeenAt, lastSeenAt: now };
+        if (hasNewReply(existing, review)) replied.push(app.reviews[review.id]);
+        updated++;
+      } else {
+        app.reviews[review.id] = { ...review, firstSeenAt: now, lastSeenAt: now };
+        created.push(app.reviews[review.id]);
+      }
+    }
+
+    this.save(app);
+    return { inserted: created.length, updated, created, replied };
+  }
+
+  /**
+   * Whether a review is stored
+   * @param country Only count the review when it was stored from this storefront country
+   */
+  has(platform: Platform, appId: string, reviewId: string, country?: string): boolean {
+    const review = this.load(platform, appId).reviews[reviewId];
+    return !!review && (!country || review.country === country);
+  }
+
+  /**
+   * Number of stored reviews
+   * @param country Only count reviews stored from this storefront country
+   */
+  count(platform: Platform, appId: string, country?: string): number {
+    const reviews = Object.values(this.load(platform, appId).reviews);
+    return country ? reviews.filter(review => review.country === country).length : reviews.length;
+  }
+
+  /**
+   * Sync progress of every storefront synced so far, keyed by storefront
+   */
+  listSyncStates(platform: Platform, appId: string): Record<string, SyncState> {
+    return structuredClone(this.load(platform, appId).storefronts);
+  }
+
+  getSyncState(platform: Platform, appId: string, storefront: string): SyncState {
+    const state = this.load(platform, appId).storefronts[storefront];
+    return state ? { ...state } : { lastSyncedAt: null, historyComplete: false, backfillCursor: null };
+  }
+
+  updateSyncState(platform: Platform, appId: string, storefront: string, changes: Partial<SyncState>): void {
+    const app = this.load(platform, appId);
+    app.storefronts[storefront] = { ...this.getSyncState(platform, appId, storefront), ...changes };
+    this.save(app);
+  }
+
+  /**
+   * List stored reviews, newest first
+   * @param platform Store platform
+   * @param appId App ID
+   * @param query Paging options
+   * @returns Stored reviews
+   */
+  list(platform: Platform, appId: string, query: StoredReviewQuery = {}): StoredReview[] {
+    const { limit, offset = 0 } = query;
+
+    const reviews = Object.values(this.load(platform, appId).reviews)
+      .sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+
+    return reviews.slice(offset, limit === undefined ? undefined : offset + limit);
+  }
+
+  private load(platform: Platform, appId: string): StoredApp {
+    const key = `${platform}:${appId}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const filePath = this.getFilePath(platform, appId);
+    let app: StoredApp = { platform, appId, storefronts: {}, reviews: {} };
+
+    if (fs.existsSync(filePath)) {
+      try {
+        app = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      } catch (error) {
+        throw new Error(`Failed to read review store for ${appId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      // Stores written before language detection existed
+      for (const review of Object.values(app.reviews)) {
+        if (review.detectedLanguage === undefined) review.detectedLanguage = languageDetector.detectReview(review);
+      }
+    }
+
+    this.cache.set(key, app);
+    return app;
+  }
+
+  private save(app: StoredApp): void {
+    const filePath = this.getFilePath(app.platform, app.appId);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated store behind
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(app), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  private getFilePath(platform: Platform, appId: string): string {
+    const safeAppId = appId.replace(/[^a-zA-Z0-9._-]/g, '_');
+    return path.resolve(this.dataDir, platform, `${safeAppId}.json`);
+  }
+}
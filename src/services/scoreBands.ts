@@ -0,0 +1,8 @@
+export type ScoreBand = 'low' | 'neutral' | 'high';
+
+/** Star scores counted into each band */
+export const SCORE_BANDS: Record<ScoreBand, number[]> = {
+  low: [1, 2],
+  neutral: [3],
+  high: [4, 5]
+};
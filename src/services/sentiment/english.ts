@@ -0,0 +1,39 @@
+import { SentimentLexicon } from './lexicon';
+
+export const englishLexicon: SentimentLexicon = {
+  language: 'en',
+  locale: 'en-US',
+  words: {
+    // Positive
+    'excellent': 4, 'amazing': 4, 'awesome': 4, 'perfect': 4, 'fantastic': 4, 'wonderful': 4,
+    'brilliant': 4, 'superb': 4, 'outstanding': 4,
+    'great': 3, 'love': 3, 'loved': 3, 'loves': 3, 'loving': 3, 'best': 3, 'beautiful': 3,
+    'good': 2, 'liked': 2, 'better': 2, 'nice': 2, 'helpful': 2, 'useful': 2, 'easy': 2, 'smooth': 2,
+    'fast': 2, 'reliable': 2, 'recommend': 2, 'recommended': 2, 'thanks': 2, 'thank': 2, 'happy': 2,
+    'enjoy': 2, 'enjoyed': 2, 'fun': 2, 'cool': 2, 'intuitive': 2, 'stable': 2, 'solid': 2,
+    'satisfied': 2, 'glad': 2,
+    'like': 1, 'works': 1, 'working': 1, 'fixed': 1,
+    // Negative
+    'terrible': -4, 'awful': -4, 'horrible': -4, 'worst': -4, 'hate': -4, 'hated': -4, 'scam': -4,
+    'fraud': -4, 'garbage': -4, 'trash': -4, 'unusable': -4, 'pathetic': -4,
+    'bad': -3, 'worse': -3, 'useless': -3, 'annoying': -3, 'crash': -3, 'crashes': -3, 'crashed': -3,
+    'crashing': -3, 'buggy': -3, 'broken': -3, 'fail': -3, 'fails': -3, 'failed': -3,
+    'disappointed': -3, 'disappointing': -3, 'disappointment': -3, 'waste': -3, 'junk': -3,
+    'ridiculous': -3, 'stupid': -3, 'frustrating': -3, 'spam': -3, 'uninstall': -3,
+    'uninstalled': -3, 'sucks': -3, 'ugly': -3,
+    'poor': -2, 'annoyed': -2, 'slow': -2, 'bug': -2, 'bugs': -2, 'glitch': -2, 'glitchy': -2,
+    'freeze': -2, 'freezes': -2, 'frozen': -2, 'lag': -2, 'laggy': -2, 'error': -2, 'errors': -2,
+    'problem': -2, 'problems': -2, 'expensive': -2, 'refund': -2, 'confusing': -2,
+    'complicated': -2, 'unstable': -2, 'wrong': -2,
+    'issue': -1, 'issues': -1, 'ads': -1, 'unfortunately': -1
+  },
+  negators: [
+    'not', 'no', 'never', 'nothing', 'hardly', 'without', 'nor', 'cannot',
+    'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'arent', 'cant', 'wont', 'wouldnt', 'couldnt', 'shouldnt'
+  ],
+  intensifiers: {
+    'extremely': 1.8, 'very': 1.5, 'super': 1.5, 'absolutely': 1.5, 'totally': 1.4, 'really': 1.3,
+    'so': 1.3, 'too': 1.3, 'quite': 1.2, 'pretty': 1.2, 'somewhat': 0.7, 'kinda': 0.7, 'slightly': 0.6
+  },
+  contrastWords: ['but', 'however', 'although', 'though']
+};
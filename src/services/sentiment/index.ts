@@ -0,0 +1,221 @@
+import { appConfig } from '../../config';
+import { tokenize } from '../tokenizer';
+import { SCORE_BANDS } from '../scoreBands';
+import { SentimentLexicon, EMOJI_SCORES } from './lexicon';
+import { turkishLexicon } from './turkish';
+import { englishLexicon } from './english';
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface SentimentResult {
+  /** Polarity from -1 (negative) to 1 (positive) */
+  polarity: number;
+  label: SentimentLabel;
+  /** Language of the lexicon that scored the text */
+  language: string;
+  /** Number of words and emoji that carried sentiment */
+  matchedTerms: number;
+  /** The text contradicts the star score, e.g. a 5-star review that reads negative */
+  mismatch: boolean;
+}
+
+export interface SentimentOptions {
+  /** Star score of the review, used to detect mismatches */
+  score?: number;
+  /** Preferred language; the lexicon matching most words wins otherwise */
+  language?: string;
+  /** Language found by the language detector; its lexicon alone scores the text when registered */
+  detectedLanguage?: string | null;
+}
+
+export type WithSentiment<T> = T & { sentiment: SentimentResult };
+
+export type SentimentReview = { text?: string | null; title?: string | null; score?: number; detectedLanguage?: string | null };
+
+interface CompiledLexicon {
+  lexicon: SentimentLexicon;
+  words: Map<string, number>;
+  negators: Set<string>;
+  postNegators: Set<string>;
+  intensifiers: Map<string, number>;
+  contrastWords: Set<string>;
+}
+
+interface ScoredTerm {
+  index: number;
+  value: number;
+}
+
+// Factor applied to negated terms; negation weakens as much as it flips
+const NEGATION_FACTOR = -0.75;
+const MIN_STEM_LENGTH = 3;
+const NEGATOR_SCOPE = 3;
+const LABEL_THRESHOLD = 0.05;
+const MISMATCH_THRESHOLD = 0.3;
+
+/**
+ * Offline lexicon-based sentiment scoring with negation, intensifiers and contrast handling
+ */
+export class SentimentAnalyzer {
+  private readonly lexicons = new Map<string, CompiledLexicon>();
+
+  constructor(lexicons: SentimentLexicon[] = [], private readonly defaultLanguage = appConfig.defaults.lang) {
+    lexicons.forEach(lexicon => this.register(lexicon));
+  }
+
+  /**
+   * Add or replace the lexicon of a language
+   */
+  register(lexicon: SentimentLexicon): void {
+    const normalize = (word: string) => this.normalizeToken(word, lexicon);
+
+    this.lexicons.set(lexicon.language, {
+      lexicon,
+      words: new Map(Object.entries(lexicon.words).map(([word, score]) => [normalize(word), score])),
+      negators: new Set(lexicon.negators.map(normalize)),
+      postNegators: new Set((lexicon.postNegators || []).map(normalize)),
+      intensifiers: new Map(Object.entries(lexicon.intensifiers).map(([word, factor]) => [normalize(word), factor])),
+      contrastWords: new Set(lexicon.contrastWords.map(normalize))
+    });
+  }
+
+  languages(): string[] {
+    return [...this.lexicons.keys()];
+  }
+
+  /**
+   * Score the sentiment of a text
+   * @param text Review text
+   * @param options Star score and preferred language
+   * @returns Sentiment result
+   */
+  analyze(text: string, options: SentimentOptions = {}): SentimentResult {
+    const preferred = options.language?.toLowerCase().split(/[-_]/)[0];
+    const detected = options.detectedLanguage && this.lexicons.get(options.detectedLanguage);
+    let best: { language: string; terms: ScoredTerm[]; total: number } | null = null;
+
+    const candidates = detected ? [[detected.lexicon.language, detected] as const] : this.lexicons;
+    for (const [language, compiled] of candidates) {
+      const { terms, total } = this.scoreWith(text || '', compiled);
+      const isBetter = !best
+        || terms.length > best.terms.length
+        || (terms.length === best.terms.length && language === preferred);
+
+      if (isBetter) best = { language, terms, total };
+    }
+
+    const total = best?.total || 0;
+    const polarity = Number((total / Math.sqrt(total * total + 15)).toFixed(3));
+    const label: SentimentLabel = polarity >= LABEL_THRESHOLD
+      ? 'positive'
+      : polarity <= -LABEL_THRESHOLD ? 'negative' : 'neutral';
+
+    const { score } = options;
+    const mismatch = typeof score === 'number' && (
+      (SCORE_BANDS.high.includes(score) && polarity <= -MISMATCH_THRESHOLD) ||
+      (SCORE_BANDS.low.includes(score) && polarity >= MISMATCH_THRESHOLD)
+    );
+
+    return {
+      polarity,
+      label,
+      language: best && (best.terms.length || detected) ? best.language : (preferred || this.defaultLanguage),
+      matchedTerms: best?.terms.length || 0,
+      mismatch
+    };
+  }
+
+  /**
+   * Score a review, reading its title (App Store) together with its text, in its detected language when it has one
+   */
+  analyzeReview(review: SentimentReview, language?: string): SentimentResult {
+    const text = [review.title, review.text].filter(Boolean).join('. ');
+    return this.analyze(text, { score: review.score, language, detectedLanguage: review.detectedLanguage });
+  }
+
+  /**
+   * Annotate reviews with a `sentiment` field
+   * @param reviews Reviews to annotate
+   * @param language Preferred language
+   * @returns Copies of the reviews with sentiment
+   */
+  annotate<T extends SentimentReview>(reviews: T[], language?: string): WithSentiment<T>[] {
+    return reviews.map(review => ({ ...review, sentiment: this.analyzeReview(review, language) }));
+  }
+
+  private scoreWith(text: string, compiled: CompiledLexicon): { terms: ScoredTerm[]; total: number } {
+    const tokens = tokenize(text, compiled.lexicon.locale).map(token => this.normalizeToken(token, compiled.lexicon));
+    const terms: ScoredTerm[] = [];
+    let contrastIndex = -1;
+    // A negator flips only the first sentiment term within its scope
+    let negateUntil = -1;
+
+    tokens.forEach((token, index) => {
+      if (compiled.contrastWords.has(token)) {
+        contrastIndex = index;
+        return;
+      }
+
+      if (compiled.negators.has(token)) {
+        negateUntil = index + NEGATOR_SCOPE;
+        return;
+      }
+
+      let value = this.lookup(token, compiled);
+      if (value === null) return;
+
+      const intensifier = compiled.intensifiers.get(tokens[index - 1]);
+      if (intensifier) value *= intensifier;
+
+      if (index <= negateUntil) {
+        value *= NEGATION_FACTOR;
+        negateUntil = -1;
+      }
+
+      if (compiled.postNegators.has(tokens[index + 1])) value *= NEGATION_FACTOR;
+
+      terms.push({ index, value });
+    });
+
+    // What follows "but" usually carries the reviewer's conclusion
+    const total = terms.reduce((sum, term) => {
+      if (contrastIndex < 0) return sum + term.value;
+      return sum + term.value * (term.index < contrastIndex ? 0.5 : 1.5);
+    }, 0);
+
+    return { terms, total };
+  }
+
+  /**
+   * Polarity of a token, or null when it carries no sentiment
+   */
+  private lookup(token: string, compiled: CompiledLexicon): number | null {
+    const emoji = EMOJI_SCORES[token];
+    if (emoji !== undefined) return emoji;
+
+    const exact = compiled.words.get(token);
+    if (exact !== undefined) return exact;
+
+    if (!compiled.lexicon.matchStems) return null;
+
+    // Longest stem first, so "çalışmıyor" wins over "çalış"
+    for (let length = token.length - 1; length >= MIN_STEM_LENGTH; length--) {
+      const stemScore = compiled.words.get(token.slice(0, length));
+      if (stemScore === undefined) continue;
+
+      const suffix = token.slice(length);
+      return compiled.lexicon.isNegatingSuffix?.(suffix) ? stemScore * NEGATION_FACTOR : stemScore;
+    }
+
+    return null;
+  }
+
+  private normalizeToken(token: string, lexicon: SentimentLexicon): string {
+    const lowered = token.toLocaleLowerCase(lexicon.locale);
+    return lexicon.normalize ? lexicon.normalize(lowered) : lowered;
+  }
+}
+
+export const sentimentAnalyzer = new SentimentAnalyzer([turkishLexicon, englishLexicon]);
+
+export { SentimentLexicon, EMOJI_SCORES, turkishLexicon, englishLexicon };
@@ -0,0 +1,33 @@
+/**
+ * Word lists and rules the sentiment analyzer needs for one language
+ */
+export interface SentimentLexicon {
+  /** Language code the lexicon is registered under */
+  language: string;
+  /** Locale used for lowercasing, e.g. `tr-TR` so that `I` becomes `ı` */
+  locale: string;
+  /** Polarity of words or stems, from -5 (very negative) to 5 (very positive) */
+  words: Record<string, number>;
+  /** Match words as stems, so `beğen` also covers `beğendim` (for agglutinative languages) */
+  matchStems?: boolean;
+  /** Words that flip the next sentiment term, e.g. `not` */
+  negators: string[];
+  /** Words that flip the previous sentiment term, e.g. Turkish `değil` */
+  postNegators?: string[];
+  /** Multipliers applied to the next sentiment term, e.g. `very` */
+  intensifiers: Record<string, number>;
+  /** Words after which the rest of the text outweighs what came before, e.g. `but` */
+  contrastWords: string[];
+  /** Normalize tokens and lexicon entries before matching */
+  normalize?: (token: string) => string;
+  /** Whether the rest of a stem-matched token negates it, e.g. Turkish `beğen-me-dim` */
+  isNegatingSuffix?: (suffix: string) => boolean;
+}
+
+/** Emoji polarity, shared by all languages */
+export const EMOJI_SCORES: Record<string, number> = {
+  '😍': 4, '🥰': 3, '❤': 3, '💯': 3, '👍': 2, '👏': 2, '😊': 2, '😀': 2, '😁': 2,
+  '🔥': 2, '🙂': 1, '😂': 1, '⭐': 1,
+  '😡': -4, '🤬': -4, '🤮': -4, '😠': -3, '👎': -3, '💩': -3, '😞': -2, '😢': -2,
+  '😭': -2, '🙁': -2, '☹': -2, '😤': -2
+};
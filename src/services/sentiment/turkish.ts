@@ -0,0 +1,50 @@
+import { SentimentLexicon } from './lexicon';
+
+const asciiFolding: Record<string, string> = { ç: 'c', ğ: 'g', ı: 'i', ö: 'o', ş: 's', ü: 'u', â: 'a', î: 'i', û: 'u' };
+
+/**
+ * Fold Turkish letters to ASCII, since many reviews are typed without them ("guzel", "cok")
+ */
+function foldTurkish(token: string): string {
+  return token.replace(/[çğıöşüâîû]/g, letter => asciiFolding[letter]);
+}
+
+export const turkishLexicon: SentimentLexicon = {
+  language: 'tr',
+  locale: 'tr-TR',
+  matchStems: true,
+  normalize: foldTurkish,
+  // Negative verb forms put -ma/-me right after the stem (beğen-me-dim, çalış-mı-yor),
+  // -mış (evidential) and -mak (infinitive) are not negations; -sız/-suz means "without" (hata-sız)
+  isNegatingSuffix: suffix => /^(m[aeiou](?![sk])|s[iu]z)/.test(suffix),
+  words: {
+    // Positive
+    'harika': 4, 'mükemmel': 4, 'muhteşem': 4, 'müthiş': 4, 'şahane': 4, 'efsane': 4, 'kusursuz': 4,
+    'süper': 3, 'güzel': 3, 'başarılı': 3, 'enfes': 3, 'bravo': 3, 'tebrik': 3, 'sorunsuz': 3,
+    'bayıl': 3, 'sevdim': 3, 'seviyorum': 3, 'sevdik': 3,
+    'iyi': 2, 'kaliteli': 2, 'hızlı': 2, 'kolay': 2, 'pratik': 2, 'kullanışlı': 2, 'faydalı': 2,
+    'yararlı': 2, 'memnun': 2, 'teşekkür': 2, 'sağol': 2, 'beğen': 2, 'tavsiye': 2, 'öneririm': 2,
+    'stabil': 2, 'akıcı': 2, 'mutlu': 2, 'keyifli': 2, 'eğlenceli': 2, 'güvenilir': 2, 'ideal': 2,
+    'çalış': 1, 'sade': 1, 'güvenli': 1,
+    // Negative
+    'berbat': -4, 'rezalet': -4, 'rezil': -4, 'boktan': -4, 'nefret': -4, 'iğrenç': -4, 'felaket': -4,
+    'dolandır': -4,
+    'kötü': -3, 'saçma': -3, 'çöp': -3, 'pişman': -3, 'korkunç': -3, 'beceriksiz': -3, 'yalan': -3,
+    'sahte': -3, 'bozuk': -3, 'mağdur': -3, 'eziyet': -3, 'işkence': -3, 'kabus': -3, 'sinir': -3,
+    'utan': -3, 'ayıp': -3, 'kırıklığı': -3, 'sevmedim': -3, 'sevmiyorum': -3,
+    'çalışmıyor': -3, 'çalışmadı': -3, 'açılmıyor': -3, 'açılmadı': -3, 'yüklenmiyor': -3,
+    'giremiyor': -3, 'yaramaz': -3, 'yaramıyor': -3, 'çöküyor': -3, 'çöktü': -3, 'çökme': -3,
+    'yavaş': -2, 'sorun': -2, 'hata': -2, 'problem': -2, 'sıkıntı': -2, 'şikayet': -2, 'pahalı': -2,
+    'gereksiz': -2, 'donuyor': -2, 'donma': -2, 'kasıyor': -2, 'kasma': -2, 'kapanıyor': -2,
+    'sildim': -2, 'bozul': -2, 'zayıf': -2, 'yetersiz': -2, 'yazık': -2, 'olmuyor': -2,
+    'gelmiyor': -2, 'yapamı': -2, 'yapamad': -2,
+    'reklam': -1, 'vasat': -1, 'eksik': -1, 'maalesef': -1, 'malesef': -1, 'keşke': -1
+  },
+  negators: ['hiçbir'],
+  postNegators: ['değil', 'yok'],
+  intensifiers: {
+    'çok': 1.5, 'aşırı': 1.6, 'hiç': 1.5, 'kesinlikle': 1.5, 'gerçekten': 1.3, 'fazla': 1.3,
+    'baya': 1.3, 'bayağı': 1.3, 'en': 1.3, 'tam': 1.2, 'biraz': 0.6
+  },
+  contrastWords: ['ama', 'fakat', 'ancak', 'lakin']
+};
@@ -0,0 +1,96 @@
+import { PartialResult } from './resilience';
+
+export type Platform = 'google-play' | 'app-store';
+
+export type StoreSort = 'newest' | 'rating' | 'helpfulness';
+
+export interface UnifiedReply {
+  text: string;
+  date: string | null;
+}
+
+export interface UnifiedReview {
+  platform: Platform;
+  appId: string;
+  country: string;
+  id: string;
+  userName: string;
+  title: string | null;
+  text: string;
+  score: number;
+  version: string | null;
+  date: string | null;
+  reply: UnifiedReply | null;
+  helpfulCount: number | null;
+  url: string | null;
+  /** Language of the title and text, null when it could not be detected */
+  detectedLanguage: string | null;
+  raw: unknown;
+}
+
+export const UNIFIED_REVIEW_FIELDS = [
+  'platform', 'appId', 'country', 'id', 'userName', 'title', 'text', 'score',
+  'version', 'date', 'reply', 'helpfulCount', 'url', 'detectedLanguage', 'raw'
+];
+
+export interface StoreReviewQuery {
+  appId: string;
+  lang?: string;
+  country?: string;
+  sort?: StoreSort;
+  num?: number;
+  bypassCache?: boolean;
+  /** Cancels fetching of further pages */
+  signal?: AbortSignal;
+}
+
+export interface StoreReviewResult {
+  reviews: UnifiedReview[];
+  hasMore: boolean;
+  totalCount: number;
+  /** Present when some pages could not be fetched */
+  partial?: PartialResult;
+}
+
+export interface StoreReviewPage {
+  reviews: UnifiedReview[];
+  nextCursor: string | null;
+}
+
+export interface StoreLocaleOptions {
+  lang?: string;
+  country?: string;
+  bypassCache?: boolean;
+}
+
+export interface StoreSearchOptions extends StoreLocaleOptions {
+  num?: number;
+}
+
+/**
+ * Contract every store integration implements. Routes and downstream
+ * services talk to stores only through this interface, so adding a new
+ * store means writing one adapter and registering it.
+ */
+export interface StoreAdapter {
+  readonly platform: Platform;
+  readonly supportedSorts: StoreSort[];
+
+  fetchReviews(query: StoreReviewQuery): Promise<StoreReviewResult>;
+  fetchReviewPage(query: StoreReviewQuery, cursor?: string | null): Promise<StoreReviewPage>;
+  getAppInfo(appId: string, options?: StoreLocaleOptions): Promise<Record<string, any>>;
+  searchApps(term: string, options?: StoreSearchOptions): Promise<Record<string, any>[]>;
+  extractAppIdFromUrl(url: string): string | null;
+}
+
+/**
+ * Normalize a store date value to an ISO 8601 string
+ * @param value Date, date string or timestamp returned by a scraper
+ * @returns ISO string or null when the value cannot be parsed
+ */
+export function toIsoDate(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
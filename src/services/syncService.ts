@@ -0,0 +1,192 @@
+import { getStoreAdapter } from './adapters';
+import { ReviewStore } from './reviewStore';
+import { Platform, StoreReviewPage } from './storeAdapter';
+import { AppConfig, appConfig } from '../config';
+import { sleep } from './resilience';
+import { reviewEvents } from './reviewEvents';
+
+export interface SyncOptions {
+  lang?: string;
+  country?: string;
+  maxReviews?: number;
+}
+
+export type SyncStopReason = 'reached-stored' | 'end-of-reviews' | 'max-reviews';
+
+export interface SyncResult {
+  platform: Platform;
+  appId: string;
+  fetched: number;
+  inserted: number;
+  updated: number;
+  pagesFetched: number;
+  stoppedBecause: SyncStopReason;
+  /** Storefront whose sync progress was updated */
+  storefront: string;
+  /** Whether the database holds the storefront's reviews down to the oldest one */
+  historyComplete: boolean;
+  /** Stored reviews of the app, or of the country for the App Store */
+  totalStored: number;
+  syncedAt: string;
+}
+
+export class SyncService {
+  private readonly inFlight = new Map<string, Promise<SyncResult>>();
+
+  constructor(
+    private readonly store = new ReviewStore(),
+    private readonly config: AppConfig = appConfig
+  ) {}
+
+  getStore(): ReviewStore {
+    return this.store;
+  }
+
+  /**
+   * Fetch newest reviews until one that is already stored is reached. Until a sync has
+   * reached the oldest review, later syncs then jump to where the previous one stopped
+   * filling in history and continue from there.
+   * Concurrent syncs of the same app and storefront share a single run.
+   * @param platform Store platform
+   * @param appId App ID
+   * @param options Sync options
+   * @returns Promise<SyncResult>
+   */
+  sync(platform: Platform, appId: string, options: SyncOptions = {}): Promise<SyncResult> {
+    const {
+      lang = this.config.defaults.lang,
+      country = this.config.defaults.country
+    } = options;
+    const key = `${platform}:${appId}:${this.getStorefront(platform, country, lang)}`;
+    const running = this.inFlight.get(key);
+    if (running) return running;
+
+    const run = this.runSync(platform, appId, options)
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, run);
+    return run;
+  }
+
+  private async runSync(platform: Platform, appId: string, options: SyncOptions): Promise<SyncResult> {
+    const {
+      lang = this.config.defaults.lang,
+      country = this.config.defaults.country,
+      maxReviews = 1000
+    } = options;
+
+    const adapter = getStoreAdapter(platform);
+    const pageDelayMs = platform === 'app-store'
+      ? this.config.delays.appStorePageMs
+      : this.config.delays.googlePlayBatchMs;
+    let cursor: string | null = null;
+    let fetched = 0;
+    let inserted = 0;
+    let updated = 0;
+    let pagesFetched = 0;
+    let stoppedBecause: SyncStopReason = 'max-reviews';
+    const storefront = this.getStorefront(platform, country, lang);
+    // App Store feeds are per country, so only the country's own reviews count as stored
+    const scope = platform === 'app-store' ? country : undefined;
+    const state = this.store.getSyncState(platform, appId, storefront);
+    // The first sync fills the database with history; only later syncs discover new reviews
+    const isFirstSync = state.lastSyncedAt === null;
+    // Past the first stored review, pages only fill in history
+    let backfilling = false;
+    let resumed = false;
+
+    console.log(`Syncing ${platform} reviews for ${appId} in ${storefront} (max ${maxReviews})...`);
+
+    while (fetched < maxReviews) {
+      let page: StoreReviewPage;
+      try {
+        page = await adapter.fetchReviewPage({
+          appId,
+          lang,
+          country,
+          sort: 'newest',
+          num: Math.min(maxReviews - fetched, this.config.limits.maxReviewsPerRequest),
+          bypassCache: true // Syncs must see the store as it is now
+        }, cursor);
+      } catch (error) {
+        // The store may no longer accept an old cursor; the next sync pages down from the newest review
+        if (resumed) this.store.updateSyncState(platform, appId, storefront, { backfillCursor: null });
+        throw error;
+      }
+
+      pagesFetched++;
+      resumed = false;
+
+      if (page.reviews.length === 0) {
+        stoppedBecause = 'end-of-reviews';
+        this.store.updateSyncState(platform, appId, storefront, { historyComplete: true, backfillCursor: null });
+        break;
+      }
+
+      const reachedStored = page.reviews.some(review => this.store.has(platform, appId, review.id, scope));
+      const result = this.store.upsert(platform, appId, page.reviews);
+      if (!isFirstSync && !backfilling) reviewEvents.publishCreated('sync', result.created);
+      reviewEvents.publishReplied('sync', result.replied);
+
+      fetched += page.reviews.length;
+      inserted += result.inserted;
+      updated += result.updated;
+      cursor = page.nextCursor;
+
+      console.log(`✅ Sync page ${pagesFetched}: ${result.inserted} new, ${result.updated} already stored`);
+
+      if (reachedStored && state.historyComplete) {
+        stoppedBecause = 'reached-stored';
+        break;
+      }
+
+      if (!cursor) {
+        stoppedBecause = 'end-of-reviews';
+        this.store.updateSyncState(platform, appId, storefront, { historyComplete: true, backfillCursor: null });
+        break;
+      }
+
+      if (reachedStored && !backfilling) {
+        backfilling = true;
+        // Skip the stored reviews between here and where the previous sync stopped
+        if (state.backfillCursor) {
+          cursor = state.backfillCursor;
+          resumed = true;
+        }
+      }
+
+      // Remember how far history got, in case this sync stops at maxReviews or fails
+      if (backfilling || isFirstSync) this.store.updateSyncState(platform, appId, storefront, { backfillCursor: cursor });
+
+      // Add a small delay to be respectful to the API
+      await sleep(pageDelayMs);
+    }
+
+    const syncedAt = new Date().toISOString();
+    this.store.updateSyncState(platform, appId, storefront, { lastSyncedAt: syncedAt });
+
+    console.log(`🏁 Sync finished for ${appId}: ${inserted} new reviews (${stoppedBecause})`);
+
+    return {
+      platform,
+      appId,
+      fetched,
+      inserted,
+      updated,
+      pagesFetched,
+      stoppedBecause,
+      storefront,
+      historyComplete: this.store.getSyncState(platform, appId, storefront).historyComplete,
+      totalStored: this.store.count(platform, appId, scope),
+      syncedAt
+    };
+  }
+
+  /**
+   * Key of the sync progress of a storefront. The App Store feed only depends on the
+   * country, Google Play lists reviews per country and language.
+   */
+  private getStorefront(platform: Platform, country: string, lang: string): string {
+    return platform === 'app-store' ? country : `${country}-${lang}`;
+  }
+}
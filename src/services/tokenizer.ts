@@ -0,0 +1,27 @@
+const TOKEN_PATTERN = /[\p{L}\p{N}]+|\p{Extended_Pictographic}/gu;
+const WORD_PATTERN = /^\p{L}/u;
+
+/**
+ * Split text into lowercase word, number and emoji tokens.
+ * Apostrophes are dropped, so "don't" becomes "dont" and "Türkiye'de" becomes "türkiyede".
+ * @param text Text to split
+ * @param locale Locale used for lowercasing, e.g. `tr-TR` so that `I` becomes `ı`
+ * @returns Tokens in order of appearance
+ */
+export function tokenize(text: string, locale?: string): string[] {
+  return text.toLocaleLowerCase(locale).replace(/['’]/g, '').match(TOKEN_PATTERN) || [];
+}
+
+/**
+ * Whether a token is a word rather than a number or emoji
+ */
+export function isWordToken(token: string): boolean {
+  return WORD_PATTERN.test(token);
+}
+
+/**
+ * Split text into sentences, so that word pairs are not formed across them
+ */
+export function splitSentences(text: string): string[] {
+  return text.split(/[.!?;:\n\r]+/).filter(sentence => sentence.trim().length > 0);
+}
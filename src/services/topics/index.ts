@@ -0,0 +1,218 @@
+import { appConfig } from '../../config';
+import { tokenize, isWordToken, splitSentences } from '../tokenizer';
+import { ScoreBand, SCORE_BANDS } from '../scoreBands';
+import { TopicLanguage, turkishTopics, englishTopics } from './languages';
+
+/** Bands whose terms are reported; 3-star reviews belong to neither */
+const TOPIC_BANDS: ScoreBand[] = ['low', 'high'];
+
+export interface TopicInput {
+  id: string;
+  text?: string | null;
+  title?: string | null;
+  score: number;
+  /** Language found by the language detector; its stopwords are used when registered */
+  detectedLanguage?: string | null;
+}
+
+export interface TopicTerm {
+  /** Most frequent spelling of the keyword or word pair */
+  term: string;
+  /** Number of reviews in the band that mention it */
+  count: number;
+  /** Share of the band's reviews that mention it */
+  share: number;
+  exampleIds: string[];
+}
+
+export interface TopicGroup {
+  scores: number[];
+  reviewCount: number;
+  keywords: TopicTerm[];
+  bigrams: TopicTerm[];
+}
+
+export interface TopicReport {
+  low: TopicGroup;
+  high: TopicGroup;
+  /** Reviews per language whose stopwords were applied */
+  languages: Record<string, number>;
+}
+
+export interface TopicOptions {
+  /** Language assumed when a review gives no clue; otherwise its detected language or the stopwords it uses most decide */
+  language?: string;
+  /** Terms to return per list (default: 20) */
+  limit?: number;
+  /** Minimum number of reviews mentioning a term (default: 2) */
+  minCount?: number;
+  /** Example review ids per term (default: 3) */
+  examples?: number;
+}
+
+interface CompiledLanguage {
+  language: TopicLanguage;
+  stopwords: Set<string>;
+}
+
+interface TermCounter {
+  count: number;
+  spellings: Map<string, number>;
+  exampleIds: string[];
+}
+
+const MIN_TERM_LENGTH = 3;
+
+/**
+ * Extracts recurring keywords and word pairs from reviews, separately for
+ * low and high star scores
+ */
+export class TopicExtractor {
+  private readonly languages = new Map<string, CompiledLanguage>();
+
+  constructor(languages: TopicLanguage[] = [], private readonly defaultLanguage = appConfig.defaults.lang) {
+    languages.forEach(language => this.register(language));
+  }
+
+  /**
+   * Add or replace the word lists of a language
+   */
+  register(language: TopicLanguage): void {
+    this.languages.set(language.language, {
+      language,
+      stopwords: new Set(language.stopwords.map(word => this.normalizeToken(word.toLocaleLowerCase(language.locale), language)))
+    });
+  }
+
+  /**
+   * Count keywords and word pairs per score band
+   * @param reviews Reviews to analyze
+   * @param options Language, limits and example count
+   * @returns Most mentioned terms of low and high scored reviews
+   */
+  extract(reviews: TopicInput[], options: TopicOptions = {}): TopicReport {
+    const { limit = 20, minCount = 2, examples = 3 } = options;
+    const preferred = options.language?.toLowerCase().split(/[-_]/)[0] || this.defaultLanguage;
+    const languages: Record<string, number> = {};
+
+    const bands = TOPIC_BANDS.map(band => ({
+      band,
+      reviewCount: 0,
+      keywords: new Map<string, TermCounter>(),
+      bigrams: new Map<string, TermCounter>()
+    }));
+
+    for (const review of reviews) {
+      const band = bands.find(({ band }) => SCORE_BANDS[band].includes(review.score));
+      if (!band) continue;
+
+      const text = [review.title, review.text].filter(Boolean).join('. ');
+      const compiled = (review.detectedLanguage && this.languages.get(review.detectedLanguage))
+        || this.detectLanguage(text, preferred);
+      const { keywords, bigrams } = this.collectTerms(text, compiled);
+
+      band.reviewCount++;
+      if (compiled) languages[compiled.language.language] = (languages[compiled.language.language] || 0) + 1;
+
+      keywords.forEach((spelling, key) => this.count(band.keywords, key, spelling, review.id, examples));
+      bigrams.forEach((spelling, key) => this.count(band.bigrams, key, spelling, review.id, examples));
+    }
+
+    const toGroup = ({ band, reviewCount, keywords, bigrams }: typeof bands[number]): TopicGroup => ({
+      scores: SCORE_BANDS[band],
+      reviewCount,
+      keywords: this.topTerms(keywords, reviewCount, limit, minCount),
+      bigrams: this.topTerms(bigrams, reviewCount, limit, minCount)
+    });
+
+    return {
+      low: toGroup(bands[0]),
+      high: toGroup(bands[1]),
+      languages
+    };
+  }
+
+  /**
+   * Pick the language whose stopwords the text uses most, preferring the requested one on ties.
+   * Only used for reviews without a detected language that has stopwords registered.
+   */
+  private detectLanguage(text: string, preferred: string): CompiledLanguage | undefined {
+    let best: { compiled: CompiledLanguage; hits: number } | undefined;
+
+    for (const [code, compiled] of this.languages) {
+      const hits = tokenize(text, compiled.language.locale)
+        .filter(token => compiled.stopwords.has(this.normalizeToken(token, compiled.language)))
+        .length;
+
+      const isBetter = !best || hits > best.hits || (hits === best.hits && code === preferred);
+      if (isBetter) best = { compiled, hits };
+    }
+
+    return best?.compiled;
+  }
+
+  /**
+   * Distinct keywords and adjacent keyword pairs of a text, keyed by normalized form
+   */
+  private collectTerms(text: string, compiled?: CompiledLanguage): { keywords: Map<string, string>; bigrams: Map<string, string> } {
+    const keywords = new Map<string, string>();
+    const bigrams = new Map<string, string>();
+
+    for (const sentence of splitSentences(text)) {
+      let previous: { key: string; spelling: string } | null = null;
+
+      for (const spelling of tokenize(sentence, compiled?.language.locale)) {
+        const key = compiled ? this.normalizeToken(spelling, compiled.language) : spelling;
+        const isKeyword = isWordToken(spelling) && key.length >= MIN_TERM_LENGTH && !compiled?.stopwords.has(key);
+
+        if (!isKeyword) {
+          // Pairs only join words that were adjacent in the text
+          previous = null;
+          continue;
+        }
+
+        if (!keywords.has(key)) keywords.set(key, spelling);
+        if (previous && previous.key !== key) {
+          const pairKey = `${previous.key} ${key}`;
+          if (!bigrams.has(pairKey)) bigrams.set(pairKey, `${previous.spelling} ${spelling}`);
+        }
+        previous = { key, spelling };
+      }
+    }
+
+    return { keywords, bigrams };
+  }
+
+  private count(counters: Map<string, TermCounter>, key: string, spelling: string, reviewId: string, examples: number): void {
+    let counter = counters.get(key);
+    if (!counter) {
+      counter = { count: 0, spellings: new Map(), exampleIds: [] };
+      counters.set(key, counter);
+    }
+
+    counter.count++;
+    counter.spellings.set(spelling, (counter.spellings.get(spelling) || 0) + 1);
+    if (counter.exampleIds.length < examples) counter.exampleIds.push(reviewId);
+  }
+
+  private topTerms(counters: Map<string, TermCounter>, reviewCount: number, limit: number, minCount: number): TopicTerm[] {
+    return [...counters.values()]
+      .filter(counter => counter.count >= minCount)
+      .map(counter => ({
+        term: [...counter.spellings.entries()].sort((a, b) => b[1] - a[1])[0][0],
+        count: counter.count,
+        share: Number((counter.count / reviewCount).toFixed(3)),
+        exampleIds: counter.exampleIds
+      }))
+      .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+      .slice(0, limit);
+  }
+
+  private normalizeToken(token: string, language: TopicLanguage): string {
+    return language.normalize ? language.normalize(token) : token;
+  }
+}
+
+export const topicExtractor = new TopicExtractor([turkishTopics, englishTopics]);
+
+export { TopicLanguage, turkishTopics, englishTopics };
@@ -0,0 +1,60 @@
+import { turkishLexicon } from '../sentiment';
+
+/**
+ * Stopwords and normalization the topic extractor needs for one language
+ */
+export interface TopicLanguage {
+  /** Language code the word lists are registered under */
+  language: string;
+  /** Locale used for lowercasing */
+  locale: string;
+  /** Words too common to be topics: function words and words every review uses, like "app" */
+  stopwords: string[];
+  /** Normalize tokens before counting, so spelling variants count as one term */
+  normalize?: (token: string) => string;
+}
+
+export const turkishTopics: TopicLanguage = {
+  language: 'tr',
+  locale: 'tr-TR',
+  normalize: turkishLexicon.normalize,
+  stopwords: [
+    // Function words
+    'acaba', 'ama', 'ancak', 'artık', 'aslında', 'az', 'bana', 'bazen', 'bazı', 'be', 'belki', 'ben',
+    'beni', 'benim', 'bile', 'bir', 'biraz', 'birçok', 'biri', 'birkaç', 'birşey', 'biz', 'bize',
+    'bizi', 'bizim', 'bu', 'buna', 'bunda', 'bundan', 'bunlar', 'bunu', 'bunun', 'burada', 'çok',
+    'çünkü', 'da', 'daha', 'de', 'değil', 'diğer', 'diye', 'en', 'gibi', 'göre', 'hala', 'hâlâ',
+    'hem', 'hep', 'hepsi', 'her', 'herkes', 'herşey', 'hiç', 'için', 'ile', 'ise', 'işte', 'kadar',
+    'kendi', 'ki', 'kim', 'mi', 'mı', 'mu', 'mü', 'nasıl', 'ne', 'neden', 'nerede', 'niye', 'o',
+    'olan', 'olarak', 'oldu', 'olduğu', 'olmak', 'olsun', 'on', 'ona', 'onlar', 'onu', 'onun', 'öyle',
+    'sadece', 'sana', 'sen', 'seni', 'siz', 'size', 'şey', 'şimdi', 'şu', 'şuan', 'tüm', 've', 'veya',
+    'ya', 'yani', 'yine', 'zaten', 'lütfen', 'tamam', 'var', 'yok', 'oluyor', 'olur', 'olmuş', 'olsa',
+    'ediyor', 'ettim', 'etti', 'yapıyor', 'yaptım', 'geldi', 'gerek', 'bence', 'sonra', 'önce',
+    'kez', 'defa', 'bi', 'falan', 'filan', 'gün', 'tane',
+    // Words most reviews use regardless of topic
+    'uygulama', 'uygulaması', 'uygulamayı', 'uygulamada', 'uygulamanın', 'uygulamaya', 'uygulamadan',
+    'uygulamalar', 'app', 'telefon', 'telefonum', 'telefonumda', 'yıldız', 'puan'
+  ]
+};
+
+export const englishTopics: TopicLanguage = {
+  language: 'en',
+  locale: 'en-US',
+  stopwords: [
+    // Function words, with apostrophes dropped as the tokenizer does
+    'about', 'after', 'again', 'all', 'also', 'always', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+    'be', 'because', 'been', 'before', 'being', 'but', 'by', 'can', 'cant', 'could', 'did', 'didnt',
+    'do', 'does', 'doesnt', 'doing', 'dont', 'even', 'ever', 'every', 'for', 'from', 'get', 'gets',
+    'getting', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'him', 'his', 'how', 'im',
+    'if', 'in', 'into', 'is', 'isnt', 'it', 'its', 'ive', 'just', 'like', 'make', 'makes', 'many',
+    'me', 'more', 'most', 'much', 'my', 'no', 'not', 'now', 'of', 'on', 'once', 'one', 'only', 'or',
+    'other', 'our', 'out', 'over', 'please', 'really', 'same', 'she', 'should', 'so', 'some', 'still',
+    'such', 'than', 'that', 'thats', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+    'those', 'time', 'to', 'too', 'up', 'us', 'use', 'used', 'using', 'very', 'was', 'wasnt', 'way',
+    'we', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with',
+    'wont', 'would', 'you', 'your', 'youre', 'yes', 'ok', 'okay', 'thing', 'things', 'lot', 'able',
+    'keep', 'keeps', 'go', 'going', 'want', 'need', 'know', 'see', 'since',
+    // Words most reviews use regardless of topic
+    'app', 'apps', 'application', 'phone', 'star', 'stars', 'review', 'rating'
+  ]
+};
@@ -0,0 +1,466 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { getStoreAdapter } from './adapters';
+import { Platform, UnifiedReview } from './storeAdapter';
+import { AppConfig, appConfig } from '../config';
+import { sleep } from './resilience';
+import { reviewEvents, hasNewReply } from './reviewEvents';
+
+export interface WatchRecord {
+  id: string;
+  platform: Platform;
+  appId: string;
+  countries: string[];
+  lang: string;
+  intervalMinutes: number;
+  createdAt: string;
+  lastPolledAt: string | null;
+  nextPollAt: string;
+  lastError: string | null;
+  /** Where the previous poll of each country left off; null until the first poll */
+  checkpoints: Record<string, WatchCheckpoint | null>;
+  /** Reviews discovered since the watch was created */
+  discoveredCount: number;
+}
+
+/**
+ * Reviews a country's previous polls ended on. Polling stops at the first page with
+ * one of these ids or a review older than `newestDate`, so it still stops when a
+ * single remembered review is deleted.
+ */
+export interface WatchCheckpoint {
+  /** Most recently seen review ids, newest first */
+  recentIds: string[];
+  /** Date of the newest review seen */
+  newestDate: string | null;
+}
+
+export interface CreateWatchOptions {
+  platform: Platform;
+  appId: string;
+  countries?: string[];
+  lang?: string;
+  intervalMinutes?: number;
+}
+
+export type WatchStopReason = 'baseline' | 'reached-known' | 'end-of-reviews' | 'max-reviews';
+
+export interface CountryPollResult {
+  fetched: number;
+  discovered: number;
+  stoppedBecause: WatchStopReason | null;
+  error: string | null;
+}
+
+export interface WatchPollResult {
+  watchId: string;
+  polledAt: string;
+  discovered: number;
+  countries: Record<string, CountryPollResult>;
+}
+
+export interface DiscoveredReview extends UnifiedReview {
+  discoveredAt: string;
+}
+
+export interface WatchFeedQuery {
+  /** Only reviews discovered after this time */
+  since?: string;
+  limit?: number;
+}
+
+/**
+ * Keeps a list of watched apps and polls them in the background for new
+ * reviews. Watches live in a JSON file, each watch's discovered reviews in
+ * a feed file of its own.
+ */
+export class WatchService {
+  private static readonly DEFAULT_DATA_DIR = 'data/watches';
+  /** Review ids remembered per country */
+  private static readonly RECENT_IDS = 50;
+
+  private readonly watches = new Map<string, WatchRecord>();
+  private readonly feeds = new Map<string, DiscoveredReview[]>();
+  private readonly inFlight = new Map<string, Promise<WatchPollResult>>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private readonly dataDir = WatchService.DEFAULT_DATA_DIR,
+    private readonly config: AppConfig = appConfig
+  ) {
+    this.load();
+  }
+
+  /**
+   * Register an app to watch; the first poll runs on the next scheduler tick
+   * @param options Platform, app, countries, language and interval
+   * @returns The created watch
+   */
+  create(options: CreateWatchOptions): WatchRecord {
+    const countries = options.countries && options.countries.length > 0
+      ? [...new Set(options.countries.map(country => country.toLowerCase()))]
+      : [this.config.defaults.country];
+    const now = new Date().toISOString();
+
+    const watch: WatchRecord = {
+      id: randomUUID(),
+      platform: options.platform,
+      appId: options.appId,
+      countries,
+      lang: options.lang || this.config.defaults.lang,
+      intervalMinutes: options.intervalMinutes || this.config.watch.defaultIntervalMinutes,
+      createdAt: now,
+      lastPolledAt: null,
+      nextPollAt: now,
+      lastError: null,
+      checkpoints: Object.fromEntries(countries.map(country => [country, null])),
+      discoveredCount: 0
+    };
+
+    this.watches.set(watch.id, watch);
+    this.feeds.set(watch.id, []);
+    this.save();
+    return watch;
+  }
+
+  get(id: string): WatchRecord | undefined {
+    return this.watches.get(id);
+  }
+
+  list(): WatchRecord[] {
+    return [...this.watches.values()]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Stop watching an app and drop its feed
+   * @returns false when the watch does not exist
+   */
+  delete(id: string): boolean {
+    if (!this.watches.delete(id)) return false;
+
+    this.feeds.delete(id);
+    this.save();
+    fs.rmSync(this.getFeedPath(id), { force: true });
+    return true;
+  }
+
+  /**
+   * Reviews discovered by a watch, newest first
+   * @param id Watch ID
+   * @param query Time and count limits
+   * @returns Discovered reviews, or undefined when the watch does not exist
+   */
+  newReviews(id: string, query: WatchFeedQuery = {}): DiscoveredReview[] | undefined {
+    if (!this.watches.has(id)) return undefined;
+
+    const { since, limit } = query;
+    const reviews = this.loadFeed(id)
+      .filter(review => !since || review.discoveredAt > since)
+      .reverse();
+
+    return limit === undefined ? reviews : reviews.slice(0, limit);
+  }
+
+  /**
+   * Poll a watch now. Concurrent polls of the same watch share a single run.
+   * @param id Watch ID
+   * @returns Poll result, or undefined when the watch does not exist
+   */
+  poll(id: string): Promise<WatchPollResult> | undefined {
+    const watch = this.watches.get(id);
+    if (!watch) return undefined;
+
+    const running = this.inFlight.get(id);
+    if (running) return running;
+
+    const run = this.runPoll(watch).finally(() => this.inFlight.delete(id));
+    this.inFlight.set(id, run);
+    return run;
+  }
+
+  /**
+   * Start polling due watches in the background
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.config.watch.tickMs);
+    // The scheduler alone should not keep the process alive
+    this.timer.unref();
+    setImmediate(() => this.tick());
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Poll every due watch, one after another to spread load on the stores
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = new Date().toISOString();
+      const due = this.list().filter(watch => watch.nextPollAt <= now);
+
+      for (const watch of due) {
+        // The watch may have been deleted while earlier ones were polled
+        if (!this.watches.has(watch.id)) continue;
+        await this.poll(watch.id);
+      }
+    } catch (error) {
+      console.error('Error in watch scheduler:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runPoll(watch: WatchRecord): Promise<WatchPollResult> {
+    const polledAt = new Date().toISOString();
+    const countries: Record<string, CountryPollResult> = {};
+    const discovered: DiscoveredReview[] = [];
+    const seenAgain: UnifiedReview[] = [];
+
+    for (const country of watch.countries) {
+      try {
+        const { reviews, known, fetched, stoppedBecause, checkpoint } = await this.pollCountry(watch, country);
+
+        watch.checkpoints[country] = checkpoint;
+        discovered.push(...reviews.map(review => ({ ...review, discoveredAt: polledAt })));
+        seenAgain.push(...known);
+        countries[country] = { fetched, discovered: reviews.length, stoppedBecause, error: null };
+
+      } catch (error) {
+        console.error(`Error polling watch ${watch.id} (${watch.appId}, ${country}):`, error);
+        countries[country] = {
+          fetched: 0,
+          discovered: 0,
+          stoppedBecause: null,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    }
+
+    let added: DiscoveredReview[] = [];
+    let replied: UnifiedReview[] = [];
+
+    // The watch may have been deleted during the poll
+    if (this.watches.has(watch.id)) {
+      const errors = Object.entries(countries)
+        .filter(([, result]) => result.error)
+        .map(([country, result]) => `${country}: ${result.error}`);
+
+      watch.lastPolledAt = polledAt;
+      watch.nextPollAt = new Date(Date.now() + watch.intervalMinutes * 60 * 1000).toISOString();
+      watch.lastError = errors.length > 0 ? errors.join('; ') : null;
+      added = this.appendToFeed(watch.id, discovered);
+      replied = this.refreshReplies(watch.id, seenAgain);
+      watch.discoveredCount += added.length;
+      this.save();
+    }
+
+    if (added.length > 0) {
+      console.log(`👀 Watch ${watch.id}: ${added.length} new reviews for ${watch.appId}`);
+    }
+
+    reviewEvents.publishCreated('watch', added);
+    reviewEvents.publishReplied('watch', replied);
+
+    return {
+      watchId: watch.id,
+      polledAt,
+      discovered: added.length,
+      countries
+    };
+  }
+
+  /**
+   * Fetch newest reviews of one country until a page reaches what earlier polls saw.
+   * The first poll of a country only records where the feed starts.
+   */
+  private async pollCountry(watch: WatchRecord, country: string): Promise<{
+    reviews: UnifiedReview[];
+    /** Already seen reviews that came with the last page */
+    known: UnifiedReview[];
+    fetched: number;
+    stoppedBecause: WatchStopReason;
+    checkpoint: WatchCheckpoint | null;
+  }> {
+    const adapter = getStoreAdapter(watch.platform);
+    const previous = watch.checkpoints[country] || null;
+    const seenIds = new Set(previous?.recentIds);
+    const seenUntil = previous?.newestDate ? Date.parse(previous.newestDate) : NaN;
+    // Reviews are listed newest first, so one older than the newest seen was there before
+    const isKnown = (review: UnifiedReview) =>
+      seenIds.has(review.id) || (review.date !== null && Date.parse(review.date) < seenUntil);
+
+    const { maxReviewsPerPoll } = this.config.watch;
+    const pageDelayMs = watch.platform === 'app-store'
+      ? this.config.delays.appStorePageMs
+      : this.config.delays.googlePlayBatchMs;
+    const reviews: UnifiedReview[] = [];
+    const fetchedIds: string[] = [];
+    let known: UnifiedReview[] = [];
+    let cursor: string | null = null;
+    let fetched = 0;
+    let newestDate = previous?.newestDate || null;
+    let stoppedBecause: WatchStopReason = 'max-reviews';
+
+    while (fetched < maxReviewsPerPoll) {
+      const page = await adapter.fetchReviewPage({
+        appId: watch.appId,
+        lang: watch.lang,
+        country,
+        sort: 'newest',
+        num: Math.min(maxReviewsPerPoll - fetched, this.config.limits.maxReviewsPerRequest),
+        bypassCache: true // Polls must see the store as it is now
+      }, cursor);
+
+      fetched += page.reviews.length;
+      for (const review of page.reviews) {
+        fetchedIds.push(review.id);
+        if (review.date && (!newestDate || Date.parse(review.date) > Date.parse(newestDate))) newestDate = review.date;
+      }
+
+      if (!previous) {
+        stoppedBecause = 'baseline';
+        break;
+      }
+
+      reviews.push(...page.reviews.filter(review => !isKnown(review)));
+
+      if (page.reviews.some(isKnown)) {
+        known = page.reviews.filter(isKnown);
+        stoppedBecause = 'reached-known';
+        break;
+      }
+
+      cursor = page.nextCursor;
+      if (page.reviews.length === 0 || !cursor) {
+        stoppedBecause = 'end-of-reviews';
+        break;
+      }
+
+      await sleep(pageDelayMs);
+    }
+
+    // Nothing fetched yet leaves the baseline for the next poll
+    const checkpoint = previous || fetchedIds.length > 0
+      ? {
+        recentIds: [...new Set([...fetchedIds, ...(previous?.recentIds || [])])].slice(0, WatchService.RECENT_IDS),
+        newestDate
+      }
+      : null;
+
+    return { reviews, known, fetched, stoppedBecause, checkpoint };
+  }
+
+  /**
+   * Add reviews to a watch's feed, skipping ones it already has
+   * @returns Reviews added
+   */
+  private appendToFeed(id: string, reviews: DiscoveredReview[]): DiscoveredReview[] {
+    const feed = this.loadFeed(id);
+    const known = new Set(feed.map(review => review.id));
+    // The same review can come up in several countries
+    const added = reviews.filter(review => {
+      if (known.has(review.id)) return false;
+      known.add(review.id);
+      return true;
+    });
+
+    // Reviews arrive newest first; the feed is kept oldest first
+    added.reverse();
+
+    if (added.length === 0) return added;
+
+    feed.push(...added);
+    feed.splice(0, Math.max(feed.length - this.config.watch.feedLimit, 0));
+    this.writeJson(this.getFeedPath(id), feed);
+    return added;
+  }
+
+  /**
+   * Update feed reviews that were seen again with a new developer reply
+   * @returns Reviews that received a reply
+   */
+  private refreshReplies(id: string, reviews: UnifiedReview[]): UnifiedReview[] {
+    const feed = this.loadFeed(id);
+    const positions = new Map(feed.map((review, index) => [review.id, index]));
+    const replied: UnifiedReview[] = [];
+
+    for (const review of reviews) {
+      const index = positions.get(review.id);
+      if (index === undefined || !hasNewReply(feed[index], review)) continue;
+
+      feed[index] = { ...feed[index], reply: review.reply };
+      replied.push(feed[index]);
+    }
+
+    if (replied.length > 0) this.writeJson(this.getFeedPath(id), feed);
+    return replied;
+  }
+
+  private loadFeed(id: string): DiscoveredReview[] {
+    const cached = this.feeds.get(id);
+    if (cached) return cached;
+
+    const filePath = this.getFeedPath(id);
+    let feed: DiscoveredReview[] = [];
+
+    if (fs.existsSync(filePath)) {
+      try {
+        feed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      } catch (error) {
+        console.error(`Error loading feed of watch ${id}:`, error);
+      }
+    }
+
+    this.feeds.set(id, feed);
+    return feed;
+  }
+
+  private load(): void {
+    const filePath = this.getWatchesPath();
+    if (!fs.existsSync(filePath)) return;
+
+    try {
+      const records: WatchRecord[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      records.forEach(watch => this.watches.set(watch.id, watch));
+    } catch (error) {
+      console.error('Error loading watches:', error);
+    }
+  }
+
+  private save(): void {
+    this.writeJson(this.getWatchesPath(), this.list());
+  }
+
+  private writeJson(filePath: string, value: unknown): void {
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(value), 'utf8');
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      console.error(`Error saving ${filePath}:`, error);
+    }
+  }
+
+  private getWatchesPath(): string {
+    return path.resolve(this.dataDir, 'watches.json');
+  }
+
+  private getFeedPath(id: string): string {
+    return path.resolve(this.dataDir, 'feeds', `${id}.json`);
+  }
+}
+
+export const watchService = new WatchService();
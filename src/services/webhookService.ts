@@ -0,0 +1,453 @@
+import fs from 'fs';
+import path from 'path';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { Platform, UnifiedReview } from './storeAdapter';
+import { ReviewEvent, ReviewEventBus, ReviewEventType, reviewEvents } from './reviewEvents';
+import { AppConfig, appConfig } from '../config';
+
+export interface WebhookFilters {
+  minScore?: number;
+  maxScore?: number;
+  /** Storefront countries, e.g. ["tr", "us"] */
+  countries?: string[];
+  /** Review title or text must contain at least one of these (case-insensitive) */
+  keywords?: string[];
+  platforms?: Platform[];
+  appIds?: string[];
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: ReviewEventType[];
+  filters: WebhookFilters;
+  /** Key of the HMAC-SHA256 payload signature */
+  secret: string;
+  createdAt: string;
+}
+
+/** A subscription as shown after creation, without its secret */
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+export interface CreateWebhookOptions {
+  url: string;
+  events: ReviewEventType[];
+  filters?: WebhookFilters;
+  /** Generated when not given */
+  secret?: string;
+}
+
+export interface WebhookPayload {
+  /** Event ID, the same for every subscription the event is delivered to */
+  id: string;
+  type: ReviewEventType;
+  occurredAt: string;
+  source: ReviewEvent['source'];
+  review: Omit<UnifiedReview, 'raw'>;
+}
+
+export type DeliveryState = 'pending' | 'delivered' | 'failed';
+
+export interface DeliveryAttempt {
+  at: string;
+  /** HTTP status of the receiver's answer, null when there was none */
+  status: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventType: ReviewEventType;
+  payload: WebhookPayload;
+  state: DeliveryState;
+  attempts: DeliveryAttempt[];
+  nextAttemptAt: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+export interface DeliveryQuery {
+  state?: DeliveryState;
+  limit?: number;
+}
+
+/**
+ * Sign a webhook body the way receivers are expected to verify it
+ * @param secret Subscription secret
+ * @param timestamp Value of the X-Webhook-Timestamp header
+ * @param body Raw request body
+ * @returns Hex HMAC-SHA256 of `<timestamp>.<body>`
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Whether a failed delivery is worth retrying: no answer, timeouts, rate limits and server errors
+ */
+function isRetryableStatus(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Key of an event's review, the same whichever source noticed it
+ */
+function reviewEventKey(type: ReviewEventType, review: Pick<UnifiedReview, 'platform' | 'appId' | 'id'>): string {
+  return `${type}:${review.platform}:${review.appId}:${review.id}`;
+}
+
+/**
+ * Delivers review events to subscribed URLs. Subscriptions and the delivery
+ * queue live in JSON files, so pending deliveries survive a restart and are
+ * retried with exponential backoff.
+ */
+export class WebhookService {
+  private static readonly DEFAULT_DATA_DIR = 'data/webhooks';
+  /** New-review events remembered to drop repeats */
+  private static readonly ANNOUNCED_LIMIT = 10000;
+  /** Events a review can raise only once, however many sources notice it */
+  private static readonly ONCE_PER_REVIEW: ReviewEventType[] = ['review.created', 'review.low_score'];
+
+  private readonly subscriptions = new Map<string, WebhookSubscription>();
+  private readonly deliveryQueue: WebhookDelivery[] = [];
+  private readonly announced = new Set<string>();
+  private unsubscribe: (() => void) | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  /** Subscriptions with deliveries in progress */
+  private readonly delivering = new Set<string>();
+
+  constructor(
+    private readonly dataDir = WebhookService.DEFAULT_DATA_DIR,
+    private readonly config: AppConfig = appConfig,
+    private readonly events: ReviewEventBus = reviewEvents
+  ) {
+    this.load();
+  }
+
+  /**
+   * Subscribe a URL to review events
+   * @param options URL, event types, filters and optional secret
+   * @returns The subscription, including its secret
+   */
+  create(options: CreateWebhookOptions): WebhookSubscription {
+    const subscription: WebhookSubscription = {
+      id: randomUUID(),
+      url: options.url,
+      events: [...new Set(options.events)],
+      filters: options.filters || {},
+      secret: options.secret || randomBytes(32).toString('hex'),
+      createdAt: new Date().toISOString()
+    };
+
+    this.subscriptions.set(subscription.id, subscription);
+    this.saveSubscriptions();
+    return subscription;
+  }
+
+  get(id: string): PublicWebhookSubscription | undefined {
+    const subscription = this.subscriptions.get(id);
+    return subscription && this.toPublic(subscription);
+  }
+
+  list(): PublicWebhookSubscription[] {
+    return [...this.subscriptions.values()]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(subscription => this.toPublic(subscription));
+  }
+
+  /**
+   * Remove a subscription together with its queued and logged deliveries
+   * @returns false when the subscription does not exist
+   */
+  delete(id: string): boolean {
+    if (!this.subscriptions.delete(id)) return false;
+
+    this.removeDeliveries(delivery => delivery.subscriptionId === id);
+    this.saveSubscriptions();
+    this.saveDeliveries();
+    return true;
+  }
+
+  /**
+   * Delivery log of a subscription, newest first
+   * @param id Subscription ID
+   * @param query State filter and limit
+   * @returns Deliveries, or undefined when the subscription does not exist
+   */
+  deliveries(id: string, query: DeliveryQuery = {}): WebhookDelivery[] | undefined {
+    if (!this.subscriptions.has(id)) return undefined;
+
+    const { state, limit } = query;
+    const deliveries = this.deliveryQueue
+      .filter(delivery => delivery.subscriptionId === id && (!state || delivery.state === state))
+      .reverse();
+
+    return limit === undefined ? deliveries : deliveries.slice(0, limit);
+  }
+
+  /**
+   * Whether an event passes a subscription's event types and filters
+   */
+  matches(subscription: WebhookSubscription, event: ReviewEvent): boolean {
+    const { review } = event;
+    const { minScore, maxScore, countries, keywords, platforms, appIds } = subscription.filters;
+
+    if (!subscription.events.includes(event.type)) return false;
+    if (minScore !== undefined && review.score < minScore) return false;
+    if (maxScore !== undefined && review.score > maxScore) return false;
+    if (countries?.length && !countries.includes(review.country.toLowerCase())) return false;
+    if (platforms?.length && !platforms.includes(review.platform)) return false;
+    if (appIds?.length && !appIds.includes(review.appId)) return false;
+
+    if (keywords?.length) {
+      const text = `${review.title || ''} ${review.text || ''}`.toLocaleLowerCase();
+      if (!keywords.some(keyword => text.includes(keyword.toLocaleLowerCase()))) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Start listening for review events and delivering them in the background
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.unsubscribe = this.events.subscribe(events => this.enqueue(events));
+    this.timer = setInterval(() => this.tick(), this.config.webhooks.tickMs);
+    this.timer.unref();
+    setImmediate(() => this.tick());
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private enqueue(events: ReviewEvent[]): void {
+    const now = new Date().toISOString();
+    let queued = 0;
+    let announced = 0;
+
+    for (const event of events) {
+      if (WebhookService.ONCE_PER_REVIEW.includes(event.type)) {
+        // Syncs and watches both announce the reviews they find, often the same ones
+        if (!this.announce(reviewEventKey(event.type, event.review))) continue;
+        announced++;
+      }
+
+      const { raw, ...review } = event.review;
+      const payload: WebhookPayload = {
+        id: event.id,
+        type: event.type,
+        occurredAt: event.occurredAt,
+        source: event.source,
+        review
+      };
+
+      for (const subscription of this.subscriptions.values()) {
+        if (!this.matches(subscription, event)) continue;
+
+        this.deliveryQueue.push({
+          id: randomUUID(),
+          subscriptionId: subscription.id,
+          eventType: event.type,
+          payload,
+          state: 'pending',
+          attempts: [],
+          nextAttemptAt: now,
+          createdAt: now,
+          finishedAt: null
+        });
+        queued++;
+      }
+    }
+
+    if (announced > 0) this.saveAnnounced();
+
+    if (queued > 0) {
+      this.saveDeliveries();
+      setImmediate(() => this.tick());
+    }
+  }
+
+  /**
+   * Remember an event key
+   * @returns false when the key was already announced
+   */
+  private announce(key: string): boolean {
+    if (this.announced.has(key)) return false;
+
+    this.announced.add(key);
+    if (this.announced.size > WebhookService.ANNOUNCED_LIMIT) {
+      // Sets iterate in insertion order, so this drops the oldest key
+      this.announced.delete(this.announced.values().next().value as string);
+    }
+    return true;
+  }
+
+  /**
+   * Attempt due deliveries: subscriptions in parallel, each one's deliveries in order
+   * and at most `maxAttemptsPerTick` of them. A subscription still busy from an earlier
+   * tick is skipped, so a dead receiver only delays its own deliveries.
+   */
+  private tick(): void {
+    const now = new Date().toISOString();
+    const due = new Map<string, WebhookDelivery[]>();
+    for (const delivery of this.deliveryQueue) {
+      if (delivery.state !== 'pending' || delivery.nextAttemptAt === null || delivery.nextAttemptAt > now) continue;
+      if (this.delivering.has(delivery.subscriptionId)) continue;
+
+      const group = due.get(delivery.subscriptionId);
+      if (group) group.push(delivery);
+      else due.set(delivery.subscriptionId, [delivery]);
+    }
+
+    for (const [subscriptionId, deliveries] of due) {
+      this.delivering.add(subscriptionId);
+      this.deliverAll(deliveries.slice(0, this.config.webhooks.maxAttemptsPerTick))
+        .catch(error => console.error(`Error delivering webhooks of subscription ${subscriptionId}:`, error))
+        .finally(() => this.delivering.delete(subscriptionId));
+    }
+  }
+
+  private async deliverAll(deliveries: WebhookDelivery[]): Promise<void> {
+    for (const delivery of deliveries) {
+      const subscription = this.subscriptions.get(delivery.subscriptionId);
+      // The subscription may have been deleted while earlier deliveries were sent
+      if (!subscription) return;
+
+      await this.attempt(subscription, delivery);
+      this.saveDeliveries();
+    }
+  }
+
+  private async attempt(subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<void> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const startedAt = Date.now();
+    let status: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'review-api-webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`
+        },
+        body,
+        signal: AbortSignal.timeout(this.config.webhooks.timeoutMs)
+      });
+
+      status = response.status;
+      if (!response.ok) error = `Receiver answered ${response.status} ${response.statusText}`.trim();
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : 'Unknown error';
+    }
+
+    const now = new Date();
+    delivery.attempts.push({ at: now.toISOString(), status, error, durationMs: Date.now() - startedAt });
+
+    if (!error) {
+      delivery.state = 'delivered';
+      delivery.nextAttemptAt = null;
+      delivery.finishedAt = now.toISOString();
+      return;
+    }
+
+    const { maxAttempts, retryBaseDelayMs } = this.config.webhooks;
+    if (!isRetryableStatus(status) || delivery.attempts.length >= maxAttempts) {
+      console.warn(`Webhook delivery ${delivery.id} to ${subscription.url} failed: ${error}`);
+      delivery.state = 'failed';
+      delivery.nextAttemptAt = null;
+      delivery.finishedAt = now.toISOString();
+      return;
+    }
+
+    const delay = retryBaseDelayMs * 2 ** (delivery.attempts.length - 1);
+    delivery.nextAttemptAt = new Date(now.getTime() + delay).toISOString();
+  }
+
+  private toPublic(subscription: WebhookSubscription): PublicWebhookSubscription {
+    const { secret, ...rest } = subscription;
+    return rest;
+  }
+
+  private removeDeliveries(predicate: (delivery: WebhookDelivery) => boolean): void {
+    for (let i = this.deliveryQueue.length - 1; i >= 0; i--) {
+      if (predicate(this.deliveryQueue[i])) this.deliveryQueue.splice(i, 1);
+    }
+  }
+
+  private load(): void {
+    const subscriptions = this.readJson<WebhookSubscription[]>(this.getPath('subscriptions.json'));
+    (subscriptions || []).forEach(subscription => this.subscriptions.set(subscription.id, subscription));
+
+    const deliveries = this.readJson<WebhookDelivery[]>(this.getPath('deliveries.json'));
+    this.deliveryQueue.push(...(deliveries || []));
+
+    const announced = this.readJson<string[]>(this.getPath('announced.json'));
+    (announced || []).forEach(key => this.announce(key));
+  }
+
+  private saveSubscriptions(): void {
+    this.writeJson(this.getPath('subscriptions.json'), [...this.subscriptions.values()]);
+  }
+
+  private saveDeliveries(): void {
+    // Keep every pending delivery, but only the most recent finished ones
+    const finished = this.deliveryQueue.filter(delivery => delivery.state !== 'pending');
+    const excess = finished.length - this.config.webhooks.logLimit;
+    if (excess > 0) {
+      const dropped = new Set(finished.slice(0, excess));
+      this.removeDeliveries(delivery => dropped.has(delivery));
+    }
+
+    this.writeJson(this.getPath('deliveries.json'), this.deliveryQueue);
+  }
+
+  private saveAnnounced(): void {
+    this.writeJson(this.getPath('announced.json'), [...this.announced]);
+  }
+
+  private readJson<T>(filePath: string): T | null {
+    if (!fs.existsSync(filePath)) return null;
+
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      console.error(`Error loading ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  private writeJson(filePath: string, value: unknown): void {
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(value), 'utf8');
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      console.error(`Error saving ${filePath}:`, error);
+    }
+  }
+
+  private getPath(fileName: string): string {
+    return path.resolve(this.dataDir, fileName);
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { ReviewData } from './reviewService';
+import { AppStoreReviewData } from './appStoreService';
+import {
+  ReviewColumn,
+  ColumnType,
+  GOOGLE_PLAY_COLUMNS,
+  APP_STORE_COLUMNS,
+  DEFAULT_GOOGLE_PLAY_COLUMNS,
+  DEFAULT_APP_STORE_COLUMNS
+} from './reviewColumns';
+
+export interface XLSXExportOptions {
+  appId: string;
+  filename?: string;
+  outputDir?: string;
+  columns?: ReviewColumn<any>[];
+  /** Cancels the export; a partly written file is removed */
+  signal?: AbortSignal;
+}
+
+export class XLSXService {
+  private static readonly DEFAULT_OUTPUT_DIR = 'exports';
+
+  async exportReviewsToXLSX(reviews: ReviewData[], options: XLSXExportOptions): Promise<string> {
+    try {
+      const {
+        appId,
+        filename = `${appId}_reviews_${Date.now()}.xlsx`,
+        columns = GOOGLE_PLAY_COLUMNS.filter(column => DEFAULT_GOOGLE_PLAY_COLUMNS.includes(column.key))
+      } = options;
+      return await this.writeWorkbook('Google Play Reviews', columns, reviews, filename, options.outputDir, options.signal);
+    } catch (error) {
+      console.error('Error exporting to XLSX:', error);
+      throw new Error(`Failed to export reviews to XLSX: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async exportAppStoreReviewsToXLSX(reviews: AppStoreReviewData[], options: XLSXExportOptions): Promise<string> {
+    try {
+      const {
+        appId,
+        filename = `appstore_${appId}_reviews_${Date.now()}.xlsx`,
+        columns = APP_STORE_COLUMNS.filter(column => DEFAULT_APP_STORE_COLUMNS.includes(column.key))
+      } = options;
+      return await this.writeWorkbook('App Store Reviews', columns, reviews, filename, options.outputDir, options.signal);
+    } catch (error) {
+      console.error('Error exporting App Store reviews to XLSX:', error);
+      throw new Error(`Failed to export App Store reviews to XLSX: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async writeWorkbook<T extends { score: number; version?: string }>(
+    sheetName: string,
+    columns: ReviewColumn<T>[],
+    reviews: T[],
+    filename: string,
+    outputDir = XLSXService.DEFAULT_OUTPUT_DIR,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const fullOutputDir = path.resolve(outputDir);
+    if (!fs.existsSync(fullOutputDir)) {
+      fs.mkdirSync(fullOutputDir, { recursive: true });
+    }
+
+    const filePath = path.join(fullOutputDir, filename);
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    this.addReviewsSheet(workbook, sheetName, columns, reviews);
+    this.addSummarySheet(workbook, reviews);
+
+    signal?.throwIfAborted();
+    await workbook.xlsx.writeFile(filePath);
+
+    if (signal?.aborted) {
+      await fs.promises.rm(filePath, { force: true });
+      signal.throwIfAborted();
+    }
+
+    return filePath;
+  }
+
+  private addReviewsSheet<T>(workbook: ExcelJS.Workbook, sheetName: string, columns: ReviewColumn<T>[], reviews: T[]): void {
+    const sheet = workbook.addWorksheet(sheetName, {
+      views: [{ state: 'frozen', ySplit: 1 }]
+    });
+
+    sheet.columns = columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.width,
+      style: column.type === 'date' ? { numFmt: 'yyyy-mm-dd hh:mm' } : {}
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    for (const review of reviews) {
+      const row: Record<string, unknown> = {};
+      for (const column of columns) {
+        row[column.key] = this.toCellValue(column.value(review), column.type);
+      }
+      sheet.addRow(row);
+    }
+
+    sheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: columns.length }
+    };
+  }
+
+  private addSummarySheet<T extends { score: number; version?: string }>(workbook: ExcelJS.Workbook, reviews: T[]): void {
+    const sheet = workbook.addWorksheet('Summary');
+    const total = reviews.length;
+    const scoreSum = reviews.reduce((sum, review) => sum + (review.score || 0), 0);
+
+    sheet.addRow(['Total reviews', total]);
+    sheet.addRow(['Average score', total ? Number((scoreSum / total).toFixed(2)) : null]);
+    sheet.addRow([]);
+
+    const scoreHeader = sheet.addRow(['Score', 'Count', 'Share']);
+    scoreHeader.font = { bold: true };
+    for (let score = 5; score >= 1; score--) {
+      const count = reviews.filter(review => review.score === score).length;
+      const row = sheet.addRow([score, count, total ? count / total : 0]);
+      row.getCell(3).numFmt = '0.0%';
+    }
+    sheet.addRow([]);
+
+    const versions = new Map<string, { count: number; scoreSum: number }>();
+    for (const review of reviews) {
+      const version = review.version || 'Unknown';
+      const entry = versions.get(version) || { count: 0, scoreSum: 0 };
+      entry.count++;
+      entry.scoreSum += review.score || 0;
+      versions.set(version, entry);
+    }
+
+    const versionHeader = sheet.addRow(['Version', 'Count', 'Average score']);
+    versionHeader.font = { bold: true };
+    [...versions.entries()]
+      .sort((a, b) => b[1].count - a[1].count)
+      .forEach(([version, entry]) => {
+        sheet.addRow([version, entry.count, Number((entry.scoreSum / entry.count).toFixed(2))]);
+      });
+
+    sheet.getColumn(1).width = 18;
+    sheet.getColumn(2).width = 10;
+    sheet.getColumn(3).width = 14;
+  }
+
+  private toCellValue(value: string | number | Date | null | undefined, type: ColumnType) {
+    if (value === null || value === undefined || value === '') return null;
+
+    switch (type) {
+      case 'number': {
+        const number = Number(value);
+        return isNaN(number) ? null : number;
+      }
+      case 'date': {
+        const date = value instanceof Date ? value : new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+      }
+      default:
+        return String(value);
+    }
+  }
+}
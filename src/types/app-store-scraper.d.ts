@@ -70,6 +70,8 @@ declare module 'app-store-scraper' {
   interface AppOptions {
     id: string;
     country?: string;
+    /** Also fetch the rating count and histogram */
+    ratings?: boolean;
   }
 
   interface SearchOptions {